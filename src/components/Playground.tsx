@@ -1,26 +1,122 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import uPlot, { AlignedData } from 'uplot';
 import 'uplot/dist/uPlot.min.css';
+import { plantFromSeed, randomSeed } from '../sim/random';
+import { actuatorLimits, DEFAULT_ACTUATOR_LAG, defaultGearRatio } from '../sim/actuator';
+import { cancelRuns, runHeadless, RunCancelledError, RunTrace } from '../sim/headless';
+import { analyzeRelay, relayGains, RelayResult, TuningRule, TUNING_RULES } from '../sim/autotune';
+import { analyzeStep, disturbanceRecovery, Recovery, StepAnalysis, stepMetrics } from '../sim/metrics';
+import { bode, Bode, LinearLoop } from '../sim/frequency';
+import { closedLoopPoles, closedLoopZeros, Complex, rootLocus } from '../sim/rootlocus';
+import { fitFopdt, fitIpdt, ModelRule, modelGains, modelResponse, PlantModel } from '../sim/identify';
+import { Objective, optimizeGains, OptimizeProgress } from '../sim/optimize';
+import { FormGains, fromParallel, ParallelGains, PidForm, toParallel } from '../sim/forms';
+import { gradeTuning, PlantEstimate, plantTruth, scoreEstimate, TuningGoals, TuningGrade } from '../sim/challenge';
 
 type SimParams = {
   dt: number;
   kp: number;
   ki?: number;
   kd?: number;
+  antiWindup?: 'none' | 'conditional' | 'backcalc' | 'clamp' | 'izone' | 'reset';
+  kt?: number;
+  iLimit?: number;
+  iZone?: number;
+  motorModel?: boolean;
+  stallTorque?: number;
+  freeSpeed?: number;
+  gearRatio?: number;
+  resistance?: number;
+  supplyVoltage?: number;
+  currentLimit?: number;
+  batteryResistance?: number;
+  dFilterTau?: number;
+  dOnMeasurement?: boolean;
+  form?: PidForm;
+  kc?: number;
+  ti?: number;
+  td?: number;
+  setpointWeightP?: number;
+  setpointWeightD?: number;
+  noiseSigma?: number;
+  quantization?: number;
+  sensorDelay?: number;
+  kS?: number;
+  kV?: number;
+  kA?: number;
+  kG?: number;
+  controller?: 'pid' | 'cascade' | 'tbh' | 'bang-bang' | 'relay' | 'open-loop';
+  relayAmplitude?: number;
+  relayHysteresis?: number;
+  openLoopU?: number;
+  innerKp?: number;
+  innerKi?: number;
+  innerKd?: number;
+  outerDivider?: number;
+  maxInnerVel?: number;
+  tbhGain?: number;
+  tbhInitial?: number;
+  bangOn?: number;
+  bangOff?: number;
+  bangFloor?: number;
+  scheduleBy?: 'none' | 'error' | 'setpoint' | 'measured';
+  gainSchedule?: GainPoint[];
   setpoint: number;
+  seed?: number;
   friction: number;
-  plant?: 'sled' | 'flywheel';
+  plant?: 'sled' | 'flywheel' | 'arm' | 'elevator';
   drag?: number;
   inertiaJ?: number;
   loadTorque?: number;
+  disturbances?: Disturbance[];
+  integrator?: 'euler' | 'semi-implicit' | 'rk4';
+  substeps?: number;
+  controlPeriod?: number;
+  controlJitter?: number;
+  computeDelay?: boolean;
+  actuatorLag?: number;
+  actuatorDeadband?: number;
+  slewRate?: number;
+  uMax?: number;
+  uMin?: number;
+  profile?: 'none' | 'trapezoid' | 'scurve';
+  maxVel?: number;
+  maxAccel?: number;
+  maxJerk?: number;
 };
 
+type Disturbance = {
+  kind: 'step' | 'impulse' | 'periodic';
+  at: number;
+  magnitude: number;
+  duration?: number;
+  period?: number;
+};
+
+type SimEvent = { t: number; label: string };
+
+type GainPoint = { at: number; kp: number; ki: number; kd: number };
+
 type SimDataMessage = {
   type: 'data';
   t: number[];
   y: number[];
   u: number[];
   sp: number[];
+  ref: number[];
+  ff: number[];
+  fb: number[];
+  dTerm: number[];
+  ym: number[];
+  events: SimEvent[];
+  current: number[];
+  voltage: number[];
+  vRef: number[];
+  vel: number[];
+  cmd: number[];
+  kpActive: number[];
+  kiActive: number[];
+  kdActive: number[];
 };
 
 export function Playground(): JSX.Element {
@@ -47,6 +143,7 @@ export function Playground(): JSX.Element {
   const yPlot = useRef<uPlot | null>(null);
   const uPlotInstance = useRef<uPlot | null>(null);
   const dataBuffer = useRef<SimDataMessage | null>(null);
+  const settleBand = useRef(0.02); // settling band, fraction of the step size
   const [latestY, setLatestY] = useState(0);
 
   const worker = useMemo(() => new Worker(new URL('../sim/sim.worker.ts', import.meta.url), { type: 'module' }), [resetCounter]);
@@ -71,6 +168,7 @@ export function Playground(): JSX.Element {
   const yPlotPI = useRef<uPlot | null>(null);
   const uPlotInstancePI = useRef<uPlot | null>(null);
   const dataBufferPI = useRef<SimDataMessage | null>(null);
+  const settleBandPI = useRef(0.02); // settling band, fraction of the step size
   const [latestYPI, setLatestYPI] = useState(0);
   const workerPI = useMemo(() => new Worker(new URL('../sim/sim.worker.ts', import.meta.url), { type: 'module' }), [resetCounterPI]);
   // Fourth simulation: PID controller
@@ -84,7 +182,11 @@ export function Playground(): JSX.Element {
     plant: 'flywheel',
     drag: 0.2,
     inertiaJ: 0.05,
-    loadTorque: 0
+    loadTorque: 0,
+    profile: 'none',
+    maxVel: 2,
+    maxAccel: 4,
+    maxJerk: 20
   });
   const [isRunningPID, setIsRunningPID] = useState(true);
   const [resetCounterPID, setResetCounterPID] = useState(0);
@@ -94,7 +196,18 @@ export function Playground(): JSX.Element {
   const uPlotRefPID = useRef<HTMLDivElement | null>(null);
   const yPlotPID = useRef<uPlot | null>(null);
   const uPlotInstancePID = useRef<uPlot | null>(null);
+  const mPlotRefPID = useRef<HTMLDivElement | null>(null);
+  const mPlotPID = useRef<uPlot | null>(null);
+  const cPlotRefPID = useRef<HTMLDivElement | null>(null);
+  const cPlotPID = useRef<uPlot | null>(null);
+  const gPlotRefPID = useRef<HTMLDivElement | null>(null);
+  const gPlotPID = useRef<uPlot | null>(null);
   const dataBufferPID = useRef<SimDataMessage | null>(null);
+  const settleBandPID = useRef(0.02); // settling band, fraction of the step size
+  // While reviewing an auto-tune experiment the charts show its trace instead of the live sim
+  const relayReviewPID = useRef(false);
+  // While a guess-the-plant challenge is open, panels keep the true plant values to themselves
+  const [challengePID, setChallengePID] = useState(false);
   const [latestYPID, setLatestYPID] = useState(0);
   const workerPID = useMemo(() => new Worker(new URL('../sim/sim.worker.ts', import.meta.url), { type: 'module' }), [resetCounterPID]);
   // Third simulation: PD controller
@@ -118,8 +231,44 @@ export function Playground(): JSX.Element {
   const yPlotPD = useRef<uPlot | null>(null);
   const uPlotInstancePD = useRef<uPlot | null>(null);
   const dataBufferPD = useRef<SimDataMessage | null>(null);
+  const settleBandPD = useRef(0.02); // settling band, fraction of the step size
   const [latestYPD, setLatestYPD] = useState(0);
   const workerPD = useMemo(() => new Worker(new URL('../sim/sim.worker.ts', import.meta.url), { type: 'module' }), [resetCounterPD]);
+  // Fifth simulation: feedforward + PID controller
+  const [paramsFF, setParamsFF] = useState<SimParams>({
+    dt: DEFAULT_DT,
+    kp: 0.5,
+    ki: 0,
+    kd: 0,
+    kS: 0,
+    kV: 0,
+    kA: 0,
+    kG: 0,
+    setpoint: 1.0,
+    friction: 0.5,
+    plant: 'flywheel',
+    drag: 0.2,
+    inertiaJ: 0.05,
+    loadTorque: 0,
+    profile: 'none',
+    maxVel: 2,
+    maxAccel: 4,
+    maxJerk: 20
+  });
+  const [isRunningFF, setIsRunningFF] = useState(true);
+  const [resetCounterFF, setResetCounterFF] = useState(0);
+  const [graphsOpenFF, setGraphsOpenFF] = useState(false);
+  const graphsOpenRefFF = useRef(false);
+  const yPlotRefFF = useRef<HTMLDivElement | null>(null);
+  const uPlotRefFF = useRef<HTMLDivElement | null>(null);
+  const yPlotFF = useRef<uPlot | null>(null);
+  const uPlotInstanceFF = useRef<uPlot | null>(null);
+  const mPlotRefFF = useRef<HTMLDivElement | null>(null);
+  const mPlotFF = useRef<uPlot | null>(null);
+  const dataBufferFF = useRef<SimDataMessage | null>(null);
+  const settleBandFF = useRef(0.02); // settling band, fraction of the step size
+  const [latestYFF, setLatestYFF] = useState(0);
+  const workerFF = useMemo(() => new Worker(new URL('../sim/sim.worker.ts', import.meta.url), { type: 'module' }), [resetCounterFF]);
 
   useEffect(() => {
     function onMessage(ev: MessageEvent) {
@@ -132,6 +281,7 @@ export function Playground(): JSX.Element {
     worker.postMessage({ type: 'start', params, running: isRunning });
     return () => {
       worker.removeEventListener('message', onMessage);
+      cancelRuns(worker);
       worker.terminate();
     };
   }, [worker]);
@@ -147,14 +297,17 @@ export function Playground(): JSX.Element {
     workerPI.postMessage({ type: 'start', params: paramsPI, running: isRunningPI });
     return () => {
       workerPI.removeEventListener('message', onMessage);
+      cancelRuns(workerPI);
       workerPI.terminate();
     };
   }, [workerPI]);
   // Hook up PID worker
   useEffect(() => {
+    // A fresh worker ends any relay review, so live data flows again
+    relayReviewPID.current = false;
     function onMessage(ev: MessageEvent) {
       const msg = ev.data as SimDataMessage | { type: 'ready' };
-      if ((msg as any).type === 'data') {
+      if ((msg as any).type === 'data' && !relayReviewPID.current) {
         dataBufferPID.current = msg as SimDataMessage;
       }
     }
@@ -162,6 +315,7 @@ export function Playground(): JSX.Element {
     workerPID.postMessage({ type: 'start', params: paramsPID, running: isRunningPID });
     return () => {
       workerPID.removeEventListener('message', onMessage);
+      cancelRuns(workerPID);
       workerPID.terminate();
     };
   }, [workerPID]);
@@ -177,9 +331,26 @@ export function Playground(): JSX.Element {
     workerPD.postMessage({ type: 'start', params: paramsPD, running: isRunningPD });
     return () => {
       workerPD.removeEventListener('message', onMessage);
+      cancelRuns(workerPD);
       workerPD.terminate();
     };
   }, [workerPD]);
+  // Hook up FF worker
+  useEffect(() => {
+    function onMessage(ev: MessageEvent) {
+      const msg = ev.data as SimDataMessage | { type: 'ready' };
+      if ((msg as any).type === 'data') {
+        dataBufferFF.current = msg as SimDataMessage;
+      }
+    }
+    workerFF.addEventListener('message', onMessage);
+    workerFF.postMessage({ type: 'start', params: paramsFF, running: isRunningFF });
+    return () => {
+      workerFF.removeEventListener('message', onMessage);
+      cancelRuns(workerFF);
+      workerFF.terminate();
+    };
+  }, [workerFF]);
 
   useEffect(() => {
     worker.postMessage({ type: 'update', params, running: isRunning });
@@ -193,61 +364,65 @@ export function Playground(): JSX.Element {
   useEffect(() => {
     workerPD.postMessage({ type: 'update', params: paramsPD, running: isRunningPD });
   }, [workerPD, paramsPD, isRunningPD]);
+  useEffect(() => {
+    workerFF.postMessage({ type: 'update', params: paramsFF, running: isRunningFF });
+  }, [workerFF, paramsFF, isRunningFF]);
+
+  // Draw the whole plant from a seed: exposed params here, hidden ones in the worker
+  function loadSeed(seed: number) {
+    setParams(p => ({ ...p, ...exposedPlantParams(seed), seed }));
+    worker.postMessage({ type: 'randomize', seed });
+  }
+  function loadSeedPI(seed: number) {
+    setParamsPI(p => ({ ...p, ...exposedPlantParams(seed), seed }));
+    workerPI.postMessage({ type: 'randomize', seed });
+  }
+  function loadSeedPD(seed: number) {
+    setParamsPD(p => ({ ...p, ...exposedPlantParams(seed), seed }));
+    workerPD.postMessage({ type: 'randomize', seed });
+  }
+  function loadSeedPID(seed: number) {
+    setParamsPID(p => ({ ...p, ...exposedPlantParams(seed), seed }));
+    workerPID.postMessage({ type: 'randomize', seed });
+  }
+  function loadSeedFF(seed: number) {
+    setParamsFF(p => ({ ...p, ...exposedPlantParams(seed), seed }));
+    workerFF.postMessage({ type: 'randomize', seed });
+  }
 
   // On first mount, randomize the hidden system and friction, and ensure running
   useEffect(() => {
     setIsRunning(true);
-    setParams(p => ({
-      ...p,
-      dt: DEFAULT_DT,
-      friction: +(Math.random() * 3.0).toFixed(2),
-      drag: +(Math.random() * 2.0).toFixed(2),
-      inertiaJ: +(0.001 + Math.random() * (0.2 - 0.001)).toFixed(3),
-      loadTorque: +(Math.random() * 1.0).toFixed(2)
-    }));
-    worker.postMessage({ type: 'randomize' });
+    setParams(p => ({ ...p, dt: DEFAULT_DT }));
+    loadSeed(randomSeed());
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
   // On first mount of PID sim
   useEffect(() => {
     setIsRunningPID(true);
-    setParamsPID(p => ({
-      ...p,
-      dt: DEFAULT_DT,
-      friction: +(Math.random() * 3.0).toFixed(2),
-      drag: +(Math.random() * 2.0).toFixed(2),
-      inertiaJ: +(0.001 + Math.random() * (0.2 - 0.001)).toFixed(3),
-      loadTorque: +(Math.random() * 1.0).toFixed(2)
-    }));
-    workerPID.postMessage({ type: 'randomize' });
+    setParamsPID(p => ({ ...p, dt: DEFAULT_DT }));
+    loadSeedPID(randomSeed());
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
   // On first mount of PD sim
   useEffect(() => {
     setIsRunningPD(true);
-    setParamsPD(p => ({
-      ...p,
-      dt: DEFAULT_DT,
-      friction: +(Math.random() * 3.0).toFixed(2),
-      drag: +(Math.random() * 2.0).toFixed(2),
-      inertiaJ: +(0.001 + Math.random() * (0.2 - 0.001)).toFixed(3),
-      loadTorque: +(Math.random() * 1.0).toFixed(2)
-    }));
-    workerPD.postMessage({ type: 'randomize' });
+    setParamsPD(p => ({ ...p, dt: DEFAULT_DT }));
+    loadSeedPD(randomSeed());
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
   // On first mount of PI sim
   useEffect(() => {
     setIsRunningPI(true);
-    setParamsPI(p => ({
-      ...p,
-      dt: DEFAULT_DT,
-      friction: +(Math.random() * 3.0).toFixed(2),
-      drag: +(Math.random() * 2.0).toFixed(2),
-      inertiaJ: +(0.001 + Math.random() * (0.2 - 0.001)).toFixed(3),
-      loadTorque: +(Math.random() * 1.0).toFixed(2)
-    }));
-    workerPI.postMessage({ type: 'randomize' });
+    setParamsPI(p => ({ ...p, dt: DEFAULT_DT }));
+    loadSeedPI(randomSeed());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  // On first mount of FF sim
+  useEffect(() => {
+    setIsRunningFF(true);
+    setParamsFF(p => ({ ...p, dt: DEFAULT_DT }));
+    loadSeedFF(randomSeed());
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -264,6 +439,9 @@ export function Playground(): JSX.Element {
   useEffect(() => {
     graphsOpenRefPD.current = graphsOpenPD;
   }, [graphsOpenPD]);
+  useEffect(() => {
+    graphsOpenRefFF.current = graphsOpenFF;
+  }, [graphsOpenFF]);
 
   // uPlot initialization
   useEffect(() => {
@@ -275,15 +453,14 @@ export function Playground(): JSX.Element {
       [0], // y
     ];
     const yWidth = yPlotRef.current.clientWidth || 800;
-    const yTitle = (params.plant ?? 'sled') === 'flywheel'
-      ? 'Setpoint (black) and Speed ω (blue)'
-      : 'Setpoint (black) and Position y (blue)';
+    const yTitle = yChartTitle(params.plant);
     const yChart = new uPlot(
       {
         width: yWidth,
         height: 320,
         title: yTitle,
         scales: { x: { time: false } },
+        plugins: [stepMarkersPlugin(() => dataBuffer.current, () => settleBand.current)],
         series: [
           {},
           { label: 'Setpoint', stroke: 'black' },
@@ -303,10 +480,11 @@ export function Playground(): JSX.Element {
         scales: { x: { time: false } },
         series: [
           {},
-          { label: 'u', stroke: 'green' }
+          { label: 'Effective uEff', stroke: 'green' },
+          HELD_COMMAND_SERIES
         ]
       },
-      ([[0], [0]] as unknown) as AlignedData,
+      ([[0], [0], [0]] as unknown) as AlignedData,
       uPlotRef.current
     );
 
@@ -315,7 +493,7 @@ export function Playground(): JSX.Element {
     // Seed plots from buffered data if available
     const buf = dataBuffer.current;
     if (buf) {
-      const { t, y, u, sp } = buf;
+      const { t, y, u, sp, cmd } = buf;
       const tLast = t.length ? t[t.length - 1] : 0;
       const start = tLast - GRAPH_WINDOW_SEC;
       const i0 = findStartIndex(t, start);
@@ -324,7 +502,7 @@ export function Playground(): JSX.Element {
       const ySlice = y.slice(i0);
       const uSlice = u.slice(i0);
       yPlot.current.setData([tSlice, spSlice, ySlice] as AlignedData);
-      uPlotInstance.current.setData([tSlice, uSlice] as AlignedData);
+      uPlotInstance.current.setData([tSlice, uSlice, cmd.slice(i0)] as AlignedData);
       if (tSlice.length >= 2) {
         const xmin = tSlice[0];
         const xmax = Math.max(tSlice[tSlice.length - 1], xmin + EPS);
@@ -364,15 +542,17 @@ export function Playground(): JSX.Element {
       [0],
     ];
     const yWidth = yPlotRefPI.current.clientWidth || 800;
-    const yTitle = (paramsPI.plant ?? 'sled') === 'flywheel'
-      ? 'Setpoint (black) and Speed ω (blue)'
-      : 'Setpoint (black) and Position y (blue)';
+    const yTitle = yChartTitle(paramsPI.plant);
     const yChart = new uPlot(
       {
         width: yWidth,
         height: 320,
         title: yTitle,
         scales: { x: { time: false } },
+        plugins: [
+          eventMarkersPlugin(() => dataBufferPI.current?.events ?? []),
+          stepMarkersPlugin(() => dataBufferPI.current, () => settleBandPI.current)
+        ],
         series: [
           {},
           { label: 'Setpoint', stroke: 'black' },
@@ -390,12 +570,14 @@ export function Playground(): JSX.Element {
         height: 200,
         title: 'Control Output u(t)',
         scales: { x: { time: false } },
+        plugins: [eventMarkersPlugin(() => dataBufferPI.current?.events ?? [])],
         series: [
           {},
-          { label: 'u', stroke: 'green' }
+          { label: 'Effective uEff', stroke: 'green' },
+          HELD_COMMAND_SERIES
         ]
       },
-      ([[0], [0]] as unknown) as AlignedData,
+      ([[0], [0], [0]] as unknown) as AlignedData,
       uPlotRefPI.current
     );
 
@@ -403,7 +585,7 @@ export function Playground(): JSX.Element {
     uPlotInstancePI.current = uChart;
     const buf = dataBufferPI.current;
     if (buf) {
-      const { t, y, u, sp } = buf;
+      const { t, y, u, sp, cmd } = buf;
       const tLast = t.length ? t[t.length - 1] : 0;
       const start = tLast - GRAPH_WINDOW_SEC;
       const i0 = findStartIndex(t, start);
@@ -412,7 +594,7 @@ export function Playground(): JSX.Element {
       const ySlice = y.slice(i0);
       const uSlice = u.slice(i0);
       yPlotPI.current.setData([tSlice, spSlice, ySlice] as AlignedData);
-      uPlotInstancePI.current.setData([tSlice, uSlice] as AlignedData);
+      uPlotInstancePI.current.setData([tSlice, uSlice, cmd.slice(i0)] as AlignedData);
       if (tSlice.length >= 2) {
         const xmin = tSlice[0];
         const xmax = Math.max(tSlice[tSlice.length - 1], xmin + EPS);
@@ -450,21 +632,27 @@ export function Playground(): JSX.Element {
       [0],
       [0],
       [0],
+      [0],
+      [0],
     ];
     const yWidth = yPlotRefPID.current.clientWidth || 800;
-    const yTitle = (paramsPID.plant ?? 'sled') === 'flywheel'
-      ? 'Setpoint (black) and Speed ω (blue)'
-      : 'Setpoint (black) and Position y (blue)';
+    const yTitle = yChartTitle(paramsPID.plant);
     const yChart = new uPlot(
       {
         width: yWidth,
         height: 320,
         title: yTitle,
         scales: { x: { time: false } },
+        plugins: [
+          eventMarkersPlugin(() => dataBufferPID.current?.events ?? []),
+          stepMarkersPlugin(() => dataBufferPID.current, () => settleBandPID.current)
+        ],
         series: [
           {},
           { label: 'Setpoint', stroke: 'black' },
-          { label: 'PV', stroke: 'blue' }
+          { label: 'PV', stroke: 'blue' },
+          { label: 'Profiled ref', stroke: 'orange', dash: [6, 4] },
+          { label: 'Measured', stroke: 'rgba(37,99,235,.45)', width: 1 }
         ]
       },
       initData,
@@ -478,20 +666,39 @@ export function Playground(): JSX.Element {
         height: 200,
         title: 'Control Output u(t)',
         scales: { x: { time: false } },
+        plugins: [eventMarkersPlugin(() => dataBufferPID.current?.events ?? [])],
         series: [
           {},
-          { label: 'u', stroke: 'green' }
+          { label: 'Effective uEff', stroke: 'green' },
+          { label: 'D term', stroke: 'red' },
+          HELD_COMMAND_SERIES
         ]
       },
-      ([[0], [0]] as unknown) as AlignedData,
+      ([[0], [0], [0], [0]] as unknown) as AlignedData,
       uPlotRefPID.current
     );
 
+    // Motor current/voltage chart only exists while the motor model is on
+    const mChart = mPlotRefPID.current
+      ? motorChart(mPlotRefPID.current, mPlotRefPID.current.clientWidth || yWidth, () => dataBufferPID.current?.events ?? [])
+      : null;
+    // Inner velocity loop chart only exists in cascade mode
+    const cChart = cPlotRefPID.current
+      ? cascadeChart(cPlotRefPID.current, cPlotRefPID.current.clientWidth || yWidth, () => dataBufferPID.current?.events ?? [])
+      : null;
+    // Active gains chart only exists while a gain schedule is on
+    const gChart = gPlotRefPID.current
+      ? gainsChart(gPlotRefPID.current, gPlotRefPID.current.clientWidth || yWidth, () => dataBufferPID.current?.events ?? [])
+      : null;
+
     yPlotPID.current = yChart;
     uPlotInstancePID.current = uChart;
+    mPlotPID.current = mChart;
+    cPlotPID.current = cChart;
+    gPlotPID.current = gChart;
     const buf = dataBufferPID.current;
     if (buf) {
-      const { t, y, u, sp } = buf;
+      const { t, y, u, sp, current, voltage, ym, dTerm, ref, vRef, vel, cmd, kpActive, kiActive, kdActive } = buf;
       const tLast = t.length ? t[t.length - 1] : 0;
       const start = tLast - GRAPH_WINDOW_SEC;
       const i0 = findStartIndex(t, start);
@@ -499,14 +706,17 @@ export function Playground(): JSX.Element {
       const spSlice = sp.slice(i0);
       const ySlice = y.slice(i0);
       const uSlice = u.slice(i0);
-      yPlotPID.current.setData([tSlice, spSlice, ySlice] as AlignedData);
-      uPlotInstancePID.current.setData([tSlice, uSlice] as AlignedData);
+      yPlotPID.current.setData([tSlice, spSlice, ySlice, ref.slice(i0), ym.slice(i0)] as AlignedData);
+      uPlotInstancePID.current.setData([tSlice, uSlice, dTerm.slice(i0), cmd.slice(i0)] as AlignedData);
       if (tSlice.length >= 2) {
         const xmin = tSlice[0];
         const xmax = Math.max(tSlice[tSlice.length - 1], xmin + EPS);
         yPlotPID.current.setScale('x', { min: xmin, max: xmax });
         uPlotInstancePID.current.setScale('x', { min: xmin, max: xmax });
       }
+      mChart?.setData([tSlice, current.slice(i0), voltage.slice(i0)] as AlignedData);
+      cChart?.setData([tSlice, vRef.slice(i0), vel.slice(i0)] as AlignedData);
+      gChart?.setData([tSlice, kpActive.slice(i0), kiActive.slice(i0), kdActive.slice(i0)] as AlignedData);
     }
 
     const resizeObserver = new ResizeObserver(() => {
@@ -518,18 +728,39 @@ export function Playground(): JSX.Element {
         const w = uPlotRefPID.current.clientWidth || 800;
         uPlotInstancePID.current.setSize({ width: w, height: 200 });
       }
+      if (mPlotRefPID.current && mPlotPID.current) {
+        const w = mPlotRefPID.current.clientWidth || 800;
+        mPlotPID.current.setSize({ width: w, height: 200 });
+      }
+      if (cPlotRefPID.current && cPlotPID.current) {
+        const w = cPlotRefPID.current.clientWidth || 800;
+        cPlotPID.current.setSize({ width: w, height: 200 });
+      }
+      if (gPlotRefPID.current && gPlotPID.current) {
+        const w = gPlotRefPID.current.clientWidth || 800;
+        gPlotPID.current.setSize({ width: w, height: 200 });
+      }
     });
     resizeObserver.observe(yPlotRefPID.current);
     resizeObserver.observe(uPlotRefPID.current);
+    if (mPlotRefPID.current) resizeObserver.observe(mPlotRefPID.current);
+    if (cPlotRefPID.current) resizeObserver.observe(cPlotRefPID.current);
+    if (gPlotRefPID.current) resizeObserver.observe(gPlotRefPID.current);
 
     return () => {
       resizeObserver.disconnect();
       yChart.destroy();
       uChart.destroy();
+      mChart?.destroy();
+      cChart?.destroy();
+      gChart?.destroy();
       yPlotPID.current = null;
       uPlotInstancePID.current = null;
+      mPlotPID.current = null;
+      cPlotPID.current = null;
+      gPlotPID.current = null;
     };
-  }, [resetCounterPID, graphsOpenPID, paramsPID.plant]);
+  }, [resetCounterPID, graphsOpenPID, paramsPID.plant, paramsPID.motorModel, paramsPID.controller, paramsPID.scheduleBy]);
   // uPlot initialization for PD sim
   useEffect(() => {
     if (!graphsOpenPD) return;
@@ -538,21 +769,22 @@ export function Playground(): JSX.Element {
       [0],
       [0],
       [0],
+      [0],
     ];
     const yWidth = yPlotRefPD.current.clientWidth || 800;
-    const yTitle = (paramsPD.plant ?? 'sled') === 'flywheel'
-      ? 'Setpoint (black) and Speed ω (blue)'
-      : 'Setpoint (black) and Position y (blue)';
+    const yTitle = yChartTitle(paramsPD.plant);
     const yChart = new uPlot(
       {
         width: yWidth,
         height: 320,
         title: yTitle,
         scales: { x: { time: false } },
+        plugins: [stepMarkersPlugin(() => dataBufferPD.current, () => settleBandPD.current)],
         series: [
           {},
           { label: 'Setpoint', stroke: 'black' },
-          { label: 'PV', stroke: 'blue' }
+          { label: 'PV', stroke: 'blue' },
+          { label: 'Measured', stroke: 'rgba(37,99,235,.45)', width: 1 }
         ]
       },
       initData,
@@ -568,10 +800,12 @@ export function Playground(): JSX.Element {
         scales: { x: { time: false } },
         series: [
           {},
-          { label: 'u', stroke: 'green' }
+          { label: 'Effective uEff', stroke: 'green' },
+          { label: 'D term', stroke: 'red' },
+          HELD_COMMAND_SERIES
         ]
       },
-      ([[0], [0]] as unknown) as AlignedData,
+      ([[0], [0], [0], [0]] as unknown) as AlignedData,
       uPlotRefPD.current
     );
 
@@ -579,7 +813,7 @@ export function Playground(): JSX.Element {
     uPlotInstancePD.current = uChart;
     const buf = dataBufferPD.current;
     if (buf) {
-      const { t, y, u, sp } = buf;
+      const { t, y, u, sp, ym, dTerm, cmd } = buf;
       const tLast = t.length ? t[t.length - 1] : 0;
       const start = tLast - GRAPH_WINDOW_SEC;
       const i0 = findStartIndex(t, start);
@@ -587,8 +821,8 @@ export function Playground(): JSX.Element {
       const spSlice = sp.slice(i0);
       const ySlice = y.slice(i0);
       const uSlice = u.slice(i0);
-      yPlotPD.current.setData([tSlice, spSlice, ySlice] as AlignedData);
-      uPlotInstancePD.current.setData([tSlice, uSlice] as AlignedData);
+      yPlotPD.current.setData([tSlice, spSlice, ySlice, ym.slice(i0)] as AlignedData);
+      uPlotInstancePD.current.setData([tSlice, uSlice, dTerm.slice(i0), cmd.slice(i0)] as AlignedData);
       if (tSlice.length >= 2) {
         const xmin = tSlice[0];
         const xmax = Math.max(tSlice[tSlice.length - 1], xmin + EPS);
@@ -618,6 +852,116 @@ export function Playground(): JSX.Element {
       uPlotInstancePD.current = null;
     };
   }, [resetCounterPD, graphsOpenPD, paramsPD.plant]);
+  // uPlot initialization for FF sim
+  useEffect(() => {
+    if (!graphsOpenFF) return;
+    if (!yPlotRefFF.current || !uPlotRefFF.current) return;
+    const initData: AlignedData = [
+      [0],
+      [0],
+      [0],
+      [0],
+    ];
+    const yWidth = yPlotRefFF.current.clientWidth || 800;
+    const yTitle = yChartTitle(paramsFF.plant);
+    const yChart = new uPlot(
+      {
+        width: yWidth,
+        height: 320,
+        title: yTitle,
+        scales: { x: { time: false } },
+        plugins: [
+          eventMarkersPlugin(() => dataBufferFF.current?.events ?? []),
+          stepMarkersPlugin(() => dataBufferFF.current, () => settleBandFF.current)
+        ],
+        series: [
+          {},
+          { label: 'Setpoint', stroke: 'black' },
+          { label: 'PV', stroke: 'blue' },
+          { label: 'Profiled ref', stroke: 'orange', dash: [6, 4] }
+        ]
+      },
+      initData,
+      yPlotRefFF.current
+    );
+
+    const uWidth = uPlotRefFF.current.clientWidth || yWidth;
+    const uChart = new uPlot(
+      {
+        width: uWidth,
+        height: 200,
+        title: 'Control Output u(t) = Feedforward + Feedback',
+        scales: { x: { time: false } },
+        plugins: [eventMarkersPlugin(() => dataBufferFF.current?.events ?? [])],
+        series: [
+          {},
+          { label: 'Effective uEff', stroke: 'green' },
+          { label: 'Feedforward', stroke: 'orange' },
+          { label: 'Feedback (PID)', stroke: 'purple' },
+          HELD_COMMAND_SERIES
+        ]
+      },
+      ([[0], [0], [0], [0], [0]] as unknown) as AlignedData,
+      uPlotRefFF.current
+    );
+
+    // Motor current/voltage chart only exists while the motor model is on
+    const mChart = mPlotRefFF.current
+      ? motorChart(mPlotRefFF.current, mPlotRefFF.current.clientWidth || yWidth, () => dataBufferFF.current?.events ?? [])
+      : null;
+
+    yPlotFF.current = yChart;
+    uPlotInstanceFF.current = uChart;
+    mPlotFF.current = mChart;
+    const buf = dataBufferFF.current;
+    if (buf) {
+      const { t, y, u, sp, current, voltage, ref, ff, fb, cmd } = buf;
+      const tLast = t.length ? t[t.length - 1] : 0;
+      const start = tLast - GRAPH_WINDOW_SEC;
+      const i0 = findStartIndex(t, start);
+      const tSlice = t.slice(i0);
+      const spSlice = sp.slice(i0);
+      const ySlice = y.slice(i0);
+      const uSlice = u.slice(i0);
+      yPlotFF.current.setData([tSlice, spSlice, ySlice, ref.slice(i0)] as AlignedData);
+      uPlotInstanceFF.current.setData([tSlice, uSlice, ff.slice(i0), fb.slice(i0), cmd.slice(i0)] as AlignedData);
+      if (tSlice.length >= 2) {
+        const xmin = tSlice[0];
+        const xmax = Math.max(tSlice[tSlice.length - 1], xmin + EPS);
+        yPlotFF.current.setScale('x', { min: xmin, max: xmax });
+        uPlotInstanceFF.current.setScale('x', { min: xmin, max: xmax });
+      }
+      mChart?.setData([tSlice, current.slice(i0), voltage.slice(i0)] as AlignedData);
+    }
+
+    const resizeObserver = new ResizeObserver(() => {
+      if (yPlotRefFF.current && yPlotFF.current) {
+        const w = yPlotRefFF.current.clientWidth || 800;
+        yPlotFF.current.setSize({ width: w, height: 320 });
+      }
+      if (uPlotRefFF.current && uPlotInstanceFF.current) {
+        const w = uPlotRefFF.current.clientWidth || 800;
+        uPlotInstanceFF.current.setSize({ width: w, height: 200 });
+      }
+      if (mPlotRefFF.current && mPlotFF.current) {
+        const w = mPlotRefFF.current.clientWidth || 800;
+        mPlotFF.current.setSize({ width: w, height: 200 });
+      }
+    });
+    resizeObserver.observe(yPlotRefFF.current);
+    resizeObserver.observe(uPlotRefFF.current);
+    if (mPlotRefFF.current) resizeObserver.observe(mPlotRefFF.current);
+
+    return () => {
+      resizeObserver.disconnect();
+      yChart.destroy();
+      uChart.destroy();
+      mChart?.destroy();
+      yPlotFF.current = null;
+      uPlotInstanceFF.current = null;
+      mPlotFF.current = null;
+    };
+  }, [resetCounterFF, graphsOpenFF, paramsFF.plant, paramsFF.motorModel]);
 
   // We keep simulation always running and update charts when open
   useEffect(() => {
@@ -631,7 +975,7 @@ export function Playground(): JSX.Element {
     const frame = () => {
       const buf = dataBuffer.current;
       if (buf) {
-        const { t, y, u, sp } = buf;
+        const { t, y, u, sp, cmd } = buf;
         // Always update latestY for the position bar, regardless of graphs mount/state
         const lastY = y.length ? y[y.length - 1] : 0;
         setLatestY(lastY);
@@ -646,7 +990,7 @@ export function Playground(): JSX.Element {
           const ySlice = y.slice(i0);
           const uSlice = u.slice(i0);
           yPlot.current.setData([tSlice, spSlice, ySlice] as AlignedData);
-          uPlotInstance.current.setData([tSlice, uSlice] as AlignedData);
+          uPlotInstance.current.setData([tSlice, uSlice, cmd.slice(i0)] as AlignedData);
           if (tSlice.length >= 2) {
             const xmin = tSlice[0];
             const xmax = Math.max(tSlice[tSlice.length - 1], xmin + EPS);
@@ -666,7 +1010,7 @@ export function Playground(): JSX.Element {
     const frame = () => {
       const buf = dataBufferPID.current;
       if (buf) {
-        const { t, y, u, sp } = buf;
+        const { t, y, u, sp, current, voltage, ym, dTerm, ref, vRef, vel, cmd, kpActive, kiActive, kdActive } = buf;
         const lastY = y.length ? y[y.length - 1] : 0;
         setLatestYPID(lastY);
         if (graphsOpenRefPID.current && yPlotPID.current && uPlotInstancePID.current) {
@@ -678,14 +1022,26 @@ export function Playground(): JSX.Element {
           const spSlice = sp.slice(i0);
           const ySlice = y.slice(i0);
           const uSlice = u.slice(i0);
-          yPlotPID.current.setData([tSlice, spSlice, ySlice] as AlignedData);
-          uPlotInstancePID.current.setData([tSlice, uSlice] as AlignedData);
+          yPlotPID.current.setData([tSlice, spSlice, ySlice, ref.slice(i0), ym.slice(i0)] as AlignedData);
+          uPlotInstancePID.current.setData([tSlice, uSlice, dTerm.slice(i0), cmd.slice(i0)] as AlignedData);
           if (tSlice.length >= 2) {
             const xmin = tSlice[0];
             const xmax = Math.max(tSlice[tSlice.length - 1], xmin + EPS);
             yPlotPID.current.setScale('x', { min: xmin, max: xmax });
             uPlotInstancePID.current.setScale('x', { min: xmin, max: xmax });
           }
+          if (mPlotPID.current) {
+            mPlotPID.current.setData([tSlice, current.slice(i0), voltage.slice(i0)] as AlignedData);
+            if (tSlice.length >= 2) mPlotPID.current.setScale('x', { min: tSlice[0], max: Math.max(tSlice[tSlice.length - 1], tSlice[0] + EPS) });
+          }
+          if (cPlotPID.current) {
+            cPlotPID.current.setData([tSlice, vRef.slice(i0), vel.slice(i0)] as AlignedData);
+            if (tSlice.length >= 2) cPlotPID.current.setScale('x', { min: tSlice[0], max: Math.max(tSlice[tSlice.length - 1], tSlice[0] + EPS) });
+          }
+          if (gPlotPID.current) {
+            gPlotPID.current.setData([tSlice, kpActive.slice(i0), kiActive.slice(i0), kdActive.slice(i0)] as AlignedData);
+            if (tSlice.length >= 2) gPlotPID.current.setScale('x', { min: tSlice[0], max: Math.max(tSlice[tSlice.length - 1], tSlice[0] + EPS) });
+          }
         }
       }
       raf = requestAnimationFrame(frame);
@@ -699,7 +1055,7 @@ export function Playground(): JSX.Element {
     const frame = () => {
       const buf = dataBufferPD.current;
       if (buf) {
-        const { t, y, u, sp } = buf;
+        const { t, y, u, sp, ym, dTerm, cmd } = buf;
         const lastY = y.length ? y[y.length - 1] : 0;
         setLatestYPD(lastY);
         if (graphsOpenRefPD.current && yPlotPD.current && uPlotInstancePD.current) {
@@ -711,8 +1067,8 @@ export function Playground(): JSX.Element {
           const spSlice = sp.slice(i0);
           const ySlice = y.slice(i0);
           const uSlice = u.slice(i0);
-          yPlotPD.current.setData([tSlice, spSlice, ySlice] as AlignedData);
-          uPlotInstancePD.current.setData([tSlice, uSlice] as AlignedData);
+          yPlotPD.current.setData([tSlice, spSlice, ySlice, ym.slice(i0)] as AlignedData);
+          uPlotInstancePD.current.setData([tSlice, uSlice, dTerm.slice(i0), cmd.slice(i0)] as AlignedData);
           if (tSlice.length >= 2) {
             const xmin = tSlice[0];
             const xmax = Math.max(tSlice[tSlice.length - 1], xmin + EPS);
@@ -732,7 +1088,7 @@ export function Playground(): JSX.Element {
     const frame = () => {
       const buf = dataBufferPI.current;
       if (buf) {
-        const { t, y, u, sp } = buf;
+        const { t, y, u, sp, cmd } = buf;
         const lastY = y.length ? y[y.length - 1] : 0;
         setLatestYPI(lastY);
         if (graphsOpenRefPI.current && yPlotPI.current && uPlotInstancePI.current) {
@@ -745,7 +1101,7 @@ export function Playground(): JSX.Element {
           const ySlice = y.slice(i0);
           const uSlice = u.slice(i0);
           yPlotPI.current.setData([tSlice, spSlice, ySlice] as AlignedData);
-          uPlotInstancePI.current.setData([tSlice, uSlice] as AlignedData);
+          uPlotInstancePI.current.setData([tSlice, uSlice, cmd.slice(i0)] as AlignedData);
           if (tSlice.length >= 2) {
             const xmin = tSlice[0];
             const xmax = Math.max(tSlice[tSlice.length - 1], xmin + EPS);
@@ -759,20 +1115,56 @@ export function Playground(): JSX.Element {
     raf = requestAnimationFrame(frame);
     return () => cancelAnimationFrame(raf);
   }, []);
+  // Animation loop for FF charts
+  useEffect(() => {
+    let raf = 0;
+    const frame = () => {
+      const buf = dataBufferFF.current;
+      if (buf) {
+        const { t, y, u, sp, current, voltage, ref, ff, fb, cmd } = buf;
+        const lastY = y.length ? y[y.length - 1] : 0;
+        setLatestYFF(lastY);
+        if (graphsOpenRefFF.current && yPlotFF.current && uPlotInstanceFF.current) {
+          const tArr = t;
+          const tLast = tArr.length ? tArr[tArr.length - 1] : 0;
+          const start = tLast - GRAPH_WINDOW_SEC;
+          const i0 = findStartIndex(tArr, start);
+          const tSlice = tArr.slice(i0);
+          const spSlice = sp.slice(i0);
+          const ySlice = y.slice(i0);
+          const uSlice = u.slice(i0);
+          yPlotFF.current.setData([tSlice, spSlice, ySlice, ref.slice(i0)] as AlignedData);
+          uPlotInstanceFF.current.setData([tSlice, uSlice, ff.slice(i0), fb.slice(i0), cmd.slice(i0)] as AlignedData);
+          if (tSlice.length >= 2) {
+            const xmin = tSlice[0];
+            const xmax = Math.max(tSlice[tSlice.length - 1], xmin + EPS);
+            yPlotFF.current.setScale('x', { min: xmin, max: xmax });
+            uPlotInstanceFF.current.setScale('x', { min: xmin, max: xmax });
+          }
+          if (mPlotFF.current) {
+            mPlotFF.current.setData([tSlice, current.slice(i0), voltage.slice(i0)] as AlignedData);
+            if (tSlice.length >= 2) mPlotFF.current.setScale('x', { min: tSlice[0], max: Math.max(tSlice[tSlice.length - 1], tSlice[0] + EPS) });
+          }
+        }
+      }
+      raf = requestAnimationFrame(frame);
+    };
+    raf = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(raf);
+  }, []);
 
   // Horizontal bar for position and setpoint mapping
   const barRef = useRef<HTMLDivElement | null>(null);
-  const rangeMin = -5;
-  const rangeMax = 5;
-  const rangeWidth = rangeMax - rangeMin;
 
   function setpointFromClick(clientX: number) {
     const el = barRef.current;
     if (!el) return;
     const rect = el.getBoundingClientRect();
     const x = Math.min(Math.max(clientX - rect.left, 0), rect.width);
-    const sp = rangeMin + (x / rect.width) * rangeWidth;
-    setParams(p => ({ ...p, setpoint: sp }));
+    setParams(p => {
+      const { min, max } = barRange(p.plant);
+      return { ...p, setpoint: min + (x / rect.width) * (max - min) };
+    });
   }
   // PI setpoint bar
   const barRefPI = useRef<HTMLDivElement | null>(null);
@@ -781,8 +1173,10 @@ export function Playground(): JSX.Element {
     if (!el) return;
     const rect = el.getBoundingClientRect();
     const x = Math.min(Math.max(clientX - rect.left, 0), rect.width);
-    const sp = rangeMin + (x / rect.width) * rangeWidth;
-    setParamsPI(p => ({ ...p, setpoint: sp }));
+    setParamsPI(p => {
+      const { min, max } = barRange(p.plant);
+      return { ...p, setpoint: min + (x / rect.width) * (max - min) };
+    });
   }
   // PID setpoint bar
   const barRefPID = useRef<HTMLDivElement | null>(null);
@@ -791,8 +1185,10 @@ export function Playground(): JSX.Element {
     if (!el) return;
     const rect = el.getBoundingClientRect();
     const x = Math.min(Math.max(clientX - rect.left, 0), rect.width);
-    const sp = rangeMin + (x / rect.width) * rangeWidth;
-    setParamsPID(p => ({ ...p, setpoint: sp }));
+    setParamsPID(p => {
+      const { min, max } = barRange(p.plant);
+      return { ...p, setpoint: min + (x / rect.width) * (max - min) };
+    });
   }
   // PD setpoint bar
   const barRefPD = useRef<HTMLDivElement | null>(null);
@@ -801,8 +1197,22 @@ export function Playground(): JSX.Element {
     if (!el) return;
     const rect = el.getBoundingClientRect();
     const x = Math.min(Math.max(clientX - rect.left, 0), rect.width);
-    const sp = rangeMin + (x / rect.width) * rangeWidth;
-    setParamsPD(p => ({ ...p, setpoint: sp }));
+    setParamsPD(p => {
+      const { min, max } = barRange(p.plant);
+      return { ...p, setpoint: min + (x / rect.width) * (max - min) };
+    });
+  }
+  // FF setpoint bar
+  const barRefFF = useRef<HTMLDivElement | null>(null);
+  function setpointFromClickFF(clientX: number) {
+    const el = barRefFF.current;
+    if (!el) return;
+    const rect = el.getBoundingClientRect();
+    const x = Math.min(Math.max(clientX - rect.left, 0), rect.width);
+    setParamsFF(p => {
+      const { min, max } = barRange(p.plant);
+      return { ...p, setpoint: min + (x / rect.width) * (max - min) };
+    });
   }
 
   return (
@@ -816,6 +1226,18 @@ export function Playground(): JSX.Element {
         <p>
           Hint: P control alone has a few quirks. With constant friction or load, it can stop a little short of the target (steady‑state error). Turning Kp way up can make it jump past the target and wobble. And if the motor can only push so hard (it saturates), P control may still struggle to land exactly on the goal. These limits are why we often add the Integral (I) part next.
         </p>
+        <p>
+          To see why a big Kp wobbles, open the <b>Root locus</b> below. Each × is a closed‑loop pole: how far left it
+          sits says how fast that part of the motion dies out, and how far up it sits says how fast it oscillates. As you
+          raise Kp the poles slide up and toward the dashed line. Past that line, the wobble grows instead of dying out.
+        </p>
+        <p>
+          Besides the sled and flywheel, try the <b>Arm</b> and the <b>Elevator</b>. Both have to fight gravity:
+          the elevator carries the same weight everywhere in its travel, while the arm needs the most push when
+          it is level and almost none when it points straight up or down. Both have hard stops at the ends.
+          Notice how P alone sags below the target on these plants, because some error is needed just to hold
+          the weight up.
+        </p>
       </div>
       <div className="interactive">
       <div className="row" style={{ gap: 12, marginBottom: 12, alignItems: 'center' }}>
@@ -829,23 +1251,35 @@ export function Playground(): JSX.Element {
             className={(params.plant ?? 'sled') === 'flywheel' ? 'is-active' : ''}
             onClick={() => setParams(p => ({ ...p, plant: 'flywheel' }))}
           >Flywheel</button>
+          <button
+            className={params.plant === 'arm' ? 'is-active' : ''}
+            onClick={() => setParams(p => ({ ...p, plant: 'arm' }))}
+          >Arm</button>
+          <button
+            className={params.plant === 'elevator' ? 'is-active' : ''}
+            onClick={() => setParams(p => ({ ...p, plant: 'elevator' }))}
+          >Elevator</button>
         </div>
       </div>
       <div className="position-bar-outer">
-        <div
-          ref={barRef}
-          className="position-bar"
-          onMouseDown={(e) => setpointFromClick(e.clientX)}
-          onClick={(e) => setpointFromClick(e.clientX)}
-        >
-          <BarMarkers y={latestY} sp={params.setpoint} min={rangeMin} max={rangeMax} />
-        </div>
+        {params.plant === 'arm' ? (
+          <ArmView angle={latestY} setpoint={params.setpoint} onSetpoint={(sp) => setParams(p => ({ ...p, setpoint: sp }))} />
+        ) : (
+          <div
+            ref={barRef}
+            className="position-bar"
+            onMouseDown={(e) => setpointFromClick(e.clientX)}
+            onClick={(e) => setpointFromClick(e.clientX)}
+          >
+            <BarMarkers y={latestY} sp={params.setpoint} min={barRange(params.plant).min} max={barRange(params.plant).max} />
+          </div>
+        )}
 
         <div className="row" style={{ justifyContent: 'flex-start', marginTop: 8, gap: 16 }}>
-          <span>Click anywhere on the bar to set the setpoint</span>
+          <span>Click to set the setpoint</span>
           <span>
             Setpoint: {params.setpoint.toFixed(2)} |
-            {(params.plant ?? 'sled') === 'flywheel' ? ' Speed' : ' Position'}:
+            {' '}{outputLabel(params.plant)}:
             {' '}{latestY.toFixed(2)}
           </span>
         </div>
@@ -868,6 +1302,8 @@ export function Playground(): JSX.Element {
             onChange={(e) => setParams(p => ({ ...p, kp: Number(e.target.value) }))}
           />
         </div>
+        <RootLocusPanel params={params} />
+        <ActuatorControls idSuffix="" params={params} setParams={setParams} />
         {/* Flywheel plant parameters are randomized, not user-editable */}
       </div>
 
@@ -878,16 +1314,8 @@ export function Playground(): JSX.Element {
         <div className="row button-row" style={{ gap: 8 }}>
           <button onClick={() => setIsRunning(r => !r)}>{isRunning ? 'Pause' : 'Play'}</button>
           <button onClick={() => setResetCounter(c => c + 1)}>Reset/Start</button>
-          <button onClick={() => {
-            setParams(p => ({
-              ...p,
-              friction: +(Math.random() * 3.0).toFixed(2),
-              drag: +(Math.random() * 2.0).toFixed(2),
-              inertiaJ: +(0.001 + Math.random() * (0.2 - 0.001)).toFixed(3),
-              loadTorque: +(Math.random() * 1.0).toFixed(2)
-            }));
-            worker.postMessage({ type: 'randomize' });
-          }}>Randomize System</button>
+          <button onClick={() => loadSeed(randomSeed())}>Randomize System</button>
+          <SeedControls seed={params.seed} onLoad={loadSeed} />
         </div>
       </div>
 
@@ -897,6 +1325,7 @@ export function Playground(): JSX.Element {
           <div className="chart" ref={uPlotRef} />
         </>
       )}
+      <MetricsPanel idSuffix="" data={dataBuffer.current} bandRef={settleBand} limits={actuatorLimits(params)} />
       </div>
 
       <div className="controls">
@@ -932,6 +1361,15 @@ export function Playground(): JSX.Element {
             reach the setpoint accurately. Start with a small Ki and increase until the steady-state
             error disappears without causing oscillation.
           </p>
+          <p>
+            Integral windup: when the motor is already pushing as hard as it can, the error can stay large
+            for a long time and the integral keeps growing. Once the system finally gets close, all that
+            stored-up integral has to unwind, and it overshoots badly. Set Anti-windup to <b>None</b>, set a
+            far-away setpoint and watch it happen. Then try the fixes: <b>Conditional integration</b> pauses
+            the integral while saturated, <b>Back-calculation</b> bleeds it off (Kt sets how fast),
+            <b>Integral clamp</b> caps how much it can add, <b>I-zone</b> only integrates close to the target,
+            and <b>Reset on zero crossing</b> clears it as soon as the target is passed.
+          </p>
         </div>
         <div className="interactive">
           <div className="row" style={{ gap: 12, marginBottom: 12, alignItems: 'center' }}>
@@ -945,23 +1383,35 @@ export function Playground(): JSX.Element {
                 className={(paramsPI.plant ?? 'sled') === 'flywheel' ? 'is-active' : ''}
                 onClick={() => setParamsPI(p => ({ ...p, plant: 'flywheel' }))}
               >Flywheel</button>
+              <button
+                className={paramsPI.plant === 'arm' ? 'is-active' : ''}
+                onClick={() => setParamsPI(p => ({ ...p, plant: 'arm' }))}
+              >Arm</button>
+              <button
+                className={paramsPI.plant === 'elevator' ? 'is-active' : ''}
+                onClick={() => setParamsPI(p => ({ ...p, plant: 'elevator' }))}
+              >Elevator</button>
             </div>
           </div>
           <div className="position-bar-outer">
-            <div
-              ref={barRefPI}
-              className="position-bar"
-              onMouseDown={(e) => setpointFromClickPI(e.clientX)}
-              onClick={(e) => setpointFromClickPI(e.clientX)}
-            >
-              <BarMarkers y={latestYPI} sp={paramsPI.setpoint} min={rangeMin} max={rangeMax} />
-            </div>
+            {paramsPI.plant === 'arm' ? (
+              <ArmView angle={latestYPI} setpoint={paramsPI.setpoint} onSetpoint={(sp) => setParamsPI(p => ({ ...p, setpoint: sp }))} />
+            ) : (
+              <div
+                ref={barRefPI}
+                className="position-bar"
+                onMouseDown={(e) => setpointFromClickPI(e.clientX)}
+                onClick={(e) => setpointFromClickPI(e.clientX)}
+              >
+                <BarMarkers y={latestYPI} sp={paramsPI.setpoint} min={barRange(paramsPI.plant).min} max={barRange(paramsPI.plant).max} />
+              </div>
+            )}
 
             <div className="row" style={{ justifyContent: 'flex-start', marginTop: 8, gap: 16 }}>
-              <span>Click anywhere on the bar to set the setpoint</span>
+              <span>Click to set the setpoint</span>
               <span>
                 Setpoint: {paramsPI.setpoint.toFixed(2)} |
-                {(paramsPI.plant ?? 'sled') === 'flywheel' ? ' Speed' : ' Position'}:
+                {' '}{outputLabel(paramsPI.plant)}:
                 {' '}{latestYPI.toFixed(2)}
               </span>
             </div>
@@ -974,14 +1424,14 @@ export function Playground(): JSX.Element {
                 max="10"
                 step="0.01"
                 value={paramsPI.kp}
-                onChange={(e) => setParamsPI(p => ({ ...p, kp: Number(e.target.value) }))}
+                onChange={(e) => setParamsPI(p => withGains(p, { kp: Number(e.target.value) }))}
                 style={{ flex: 1 }}
               />
               <input
                 type="number"
                 value={paramsPI.kp}
                 step={0.01}
-                onChange={(e) => setParamsPI(p => ({ ...p, kp: Number(e.target.value) }))}
+                onChange={(e) => setParamsPI(p => withGains(p, { kp: Number(e.target.value) }))}
               />
             </div>
             <div className="row" style={{ width: '100%' }}>
@@ -993,16 +1443,20 @@ export function Playground(): JSX.Element {
                 max="5"
                 step="0.001"
                 value={paramsPI.ki ?? 0}
-                onChange={(e) => setParamsPI(p => ({ ...p, ki: Number(e.target.value) }))}
+                onChange={(e) => setParamsPI(p => withGains(p, { ki: Number(e.target.value) }))}
                 style={{ flex: 1 }}
               />
               <input
                 type="number"
                 value={paramsPI.ki ?? 0}
                 step={0.001}
-                onChange={(e) => setParamsPI(p => ({ ...p, ki: Number(e.target.value) }))}
+                onChange={(e) => setParamsPI(p => withGains(p, { ki: Number(e.target.value) }))}
               />
             </div>
+            <FormControls idSuffix="PI" params={paramsPI} setParams={setParamsPI} terms="pi" />
+            <AntiWindupControls idSuffix="PI" params={paramsPI} setParams={setParamsPI} />
+            <ActuatorControls idSuffix="PI" params={paramsPI} setParams={setParamsPI} />
+            <DisturbanceControls idSuffix="PI" params={paramsPI} setParams={setParamsPI} worker={workerPI} />
           </div>
 
           <div className="row toolbar" style={{ justifyContent: 'flex-start', gap: 12, margin: '12px 0' }}>
@@ -1012,16 +1466,8 @@ export function Playground(): JSX.Element {
             <div className="row button-row" style={{ gap: 8 }}>
               <button onClick={() => setIsRunningPI(r => !r)}>{isRunningPI ? 'Pause' : 'Play'}</button>
               <button onClick={() => setResetCounterPI(c => c + 1)}>Reset/Start</button>
-              <button onClick={() => {
-                setParamsPI(p => ({
-                  ...p,
-                  friction: +(Math.random() * 3.0).toFixed(2),
-                  drag: +(Math.random() * 2.0).toFixed(2),
-                  inertiaJ: +(0.001 + Math.random() * (0.2 - 0.001)).toFixed(3),
-                  loadTorque: +(Math.random() * 1.0).toFixed(2)
-                }));
-                workerPI.postMessage({ type: 'randomize' });
-              }}>Randomize System</button>
+              <button onClick={() => loadSeedPI(randomSeed())}>Randomize System</button>
+              <SeedControls seed={paramsPI.seed} onLoad={loadSeedPI} />
             </div>
           </div>
 
@@ -1031,6 +1477,7 @@ export function Playground(): JSX.Element {
               <div className="chart" ref={uPlotRefPI} />
             </>
           )}
+          <MetricsPanel idSuffix="PI" data={dataBufferPI.current} bandRef={settleBandPI} limits={actuatorLimits(paramsPI)} />
         </div>
       </div>
       <div className="card" style={{ marginTop: 24 }}>
@@ -1069,6 +1516,13 @@ export function Playground(): JSX.Element {
             far off?”, I handles “how long have we been off?”, and D handles “how fast are we changing?”
             Together, PID can be fast, accurate, and smooth.
           </p>
+          <p>
+            Two common D tweaks: a <b>D filter</b> smooths the derivative so it reacts to real motion rather
+            than jitter (a bigger τ means smoother but later). Switching D to act on the <b>measurement</b>
+            instead of the error means clicking a new setpoint no longer causes a sudden spike (“derivative
+            kick”), because only the system's own motion is differentiated. Open the graphs and watch the
+            red D-term line as you try both.
+          </p>
         </div>
         <div className="interactive">
           <div className="row" style={{ gap: 12, marginBottom: 12, alignItems: 'center' }}>
@@ -1082,23 +1536,35 @@ export function Playground(): JSX.Element {
                 className={(paramsPD.plant ?? 'sled') === 'flywheel' ? 'is-active' : ''}
                 onClick={() => setParamsPD(p => ({ ...p, plant: 'flywheel' }))}
               >Flywheel</button>
+              <button
+                className={paramsPD.plant === 'arm' ? 'is-active' : ''}
+                onClick={() => setParamsPD(p => ({ ...p, plant: 'arm' }))}
+              >Arm</button>
+              <button
+                className={paramsPD.plant === 'elevator' ? 'is-active' : ''}
+                onClick={() => setParamsPD(p => ({ ...p, plant: 'elevator' }))}
+              >Elevator</button>
             </div>
           </div>
           <div className="position-bar-outer">
-            <div
-              ref={barRefPD}
-              className="position-bar"
-              onMouseDown={(e) => setpointFromClickPD(e.clientX)}
-              onClick={(e) => setpointFromClickPD(e.clientX)}
-            >
-              <BarMarkers y={latestYPD} sp={paramsPD.setpoint} min={rangeMin} max={rangeMax} />
-            </div>
+            {paramsPD.plant === 'arm' ? (
+              <ArmView angle={latestYPD} setpoint={paramsPD.setpoint} onSetpoint={(sp) => setParamsPD(p => ({ ...p, setpoint: sp }))} />
+            ) : (
+              <div
+                ref={barRefPD}
+                className="position-bar"
+                onMouseDown={(e) => setpointFromClickPD(e.clientX)}
+                onClick={(e) => setpointFromClickPD(e.clientX)}
+              >
+                <BarMarkers y={latestYPD} sp={paramsPD.setpoint} min={barRange(paramsPD.plant).min} max={barRange(paramsPD.plant).max} />
+              </div>
+            )}
 
             <div className="row" style={{ justifyContent: 'flex-start', marginTop: 8, gap: 16 }}>
-              <span>Click anywhere on the bar to set the setpoint</span>
+              <span>Click to set the setpoint</span>
               <span>
                 Setpoint: {paramsPD.setpoint.toFixed(2)} |
-                {(paramsPD.plant ?? 'sled') === 'flywheel' ? ' Speed' : ' Position'}:
+                {' '}{outputLabel(paramsPD.plant)}:
                 {' '}{latestYPD.toFixed(2)}
               </span>
             </div>
@@ -1111,14 +1577,14 @@ export function Playground(): JSX.Element {
                 max="10"
                 step="0.01"
                 value={paramsPD.kp}
-                onChange={(e) => setParamsPD(p => ({ ...p, kp: Number(e.target.value) }))}
+                onChange={(e) => setParamsPD(p => withGains(p, { kp: Number(e.target.value) }))}
                 style={{ flex: 1 }}
               />
               <input
                 type="number"
                 value={paramsPD.kp}
                 step={0.01}
-                onChange={(e) => setParamsPD(p => ({ ...p, kp: Number(e.target.value) }))}
+                onChange={(e) => setParamsPD(p => withGains(p, { kp: Number(e.target.value) }))}
               />
             </div>
             <div className="row" style={{ width: '100%' }}>
@@ -1130,16 +1596,20 @@ export function Playground(): JSX.Element {
                 max="5"
                 step="0.001"
                 value={paramsPD.kd ?? 0}
-                onChange={(e) => setParamsPD(p => ({ ...p, kd: Number(e.target.value) }))}
+                onChange={(e) => setParamsPD(p => withGains(p, { kd: Number(e.target.value) }))}
                 style={{ flex: 1 }}
               />
               <input
                 type="number"
                 value={paramsPD.kd ?? 0}
                 step={0.001}
-                onChange={(e) => setParamsPD(p => ({ ...p, kd: Number(e.target.value) }))}
+                onChange={(e) => setParamsPD(p => withGains(p, { kd: Number(e.target.value) }))}
               />
             </div>
+            <FormControls idSuffix="PD" params={paramsPD} setParams={setParamsPD} terms="pd" />
+            <DerivativeControls idSuffix="PD" params={paramsPD} setParams={setParamsPD} />
+            <SensorControls idSuffix="PD" params={paramsPD} setParams={setParamsPD} />
+            <ActuatorControls idSuffix="PD" params={paramsPD} setParams={setParamsPD} />
           </div>
 
           <div className="row toolbar" style={{ justifyContent: 'flex-start', gap: 12, margin: '12px 0' }}>
@@ -1149,16 +1619,8 @@ export function Playground(): JSX.Element {
             <div className="row button-row" style={{ gap: 8 }}>
               <button onClick={() => setIsRunningPD(r => !r)}>{isRunningPD ? 'Pause' : 'Play'}</button>
               <button onClick={() => setResetCounterPD(c => c + 1)}>Reset/Start</button>
-              <button onClick={() => {
-                setParamsPD(p => ({
-                  ...p,
-                  friction: +(Math.random() * 3.0).toFixed(2),
-                  drag: +(Math.random() * 2.0).toFixed(2),
-                  inertiaJ: +(0.001 + Math.random() * (0.2 - 0.001)).toFixed(3),
-                  loadTorque: +(Math.random() * 1.0).toFixed(2)
-                }));
-                workerPD.postMessage({ type: 'randomize' });
-              }}>Randomize System</button>
+              <button onClick={() => loadSeedPD(randomSeed())}>Randomize System</button>
+              <SeedControls seed={paramsPD.seed} onLoad={loadSeedPD} />
             </div>
           </div>
 
@@ -1168,6 +1630,7 @@ export function Playground(): JSX.Element {
               <div className="chart" ref={uPlotRefPD} />
             </>
           )}
+          <MetricsPanel idSuffix="PD" data={dataBufferPD.current} bandRef={settleBandPD} limits={actuatorLimits(paramsPD)} />
         </div>
       </div>
       <div className="card" style={{ marginTop: 24 }}>
@@ -1205,6 +1668,27 @@ export function Playground(): JSX.Element {
             <li><b>Healthy control output</b>: the motor command isn’t slamming at the limits for long
               periods (except maybe right at the start).</li>
           </ul>
+          <p>
+            The <b>Step response</b> panel under each simulation measures these for you every time the setpoint
+            changes: rise time, overshoot, settling time, steady‑state error, IAE (total error over time) and how
+            long u spent stuck at the actuator's limits. The graph marks the 10% and 90% points, the peak, and the shaded settling band.
+          </p>
+          <p>
+            The same three numbers can be written in different ways, and the motor controller you use might not
+            speak "Kp, Ki, Kd". Many industrial and vendor controllers use the <b>ideal</b> form: one gain Kc
+            multiplies everything, Ti is how many seconds the I term takes to repeat the P action, and Td is how
+            far ahead D looks. The <b>series</b> form chains a PI and a PD, so changing Ti also nudges the
+            effective Kp. Copying Kp into Kc and Ki into "Ti" is a classic way to wreck a tune. Pick a form under
+            <b> Controller form</b> and the sim runs that form, while the panel shows the same tune in all three.
+          </p>
+          <p>
+            Notice the catch in the guide above: the same Kp that makes the loop fight hard against a push also
+            makes it lunge at every new setpoint and overshoot. <b>Setpoint weights</b> separate the two. With
+            b below 1 the P term only reacts to part of the setpoint jump (b·r − y), while the I term still
+            sees the whole error, so the output still ends up on target. Disturbances don't move the setpoint,
+            so they are fought just as hard as before. The weight c does the same for D (c = 0 is the same as
+            D on measurement). Press "Compare" to run b = 1 and your b side by side.
+          </p>
           <p>
             When to skip terms:
           </p>
@@ -1214,6 +1698,104 @@ export function Playground(): JSX.Element {
             <li><b>No D (Kd = 0)</b>: if overshoot/wobble is already small, or your measurement is noisy
               and D would just amplify that noise.</li>
           </ul>
+          <p>
+            Most of the time a robot isn't chasing a new setpoint, it's fighting to stay on one while something
+            pushes it around. Under <b>Disturbances</b> you can add a load step (a constant push that suddenly
+            appears), a bump (a quick knock) or a periodic push, either right now or scheduled at a time after
+            Reset/Start. Each one is marked with a red dashed line on the graphs so you can see how quickly the
+            controller recovers.
+          </p>
+          <p>
+            The ideal actuator used so far pushes the same at any speed. A real <b>DC motor</b> doesn't: as it
+            spins faster it generates a back voltage that eats into the battery voltage, so it runs out of push
+            near its free speed. Its current also spikes when it starts from rest, which is why motor controllers
+            limit current and why the battery voltage sags under load. Turn on the motor model and open the
+            graphs to watch current and battery voltage while you retune.
+          </p>
+          <p>
+            Motors and motor controllers also differ in how they turn a command into effort. The <b>Actuator</b>
+            panel sets how sluggishly the output follows the command (lag), how big a command has to be before
+            anything moves (deadband), how fast the output is allowed to change (slew rate) and its limits, which
+            can be different in each direction. The output graph shows what the controller asked for (grey stairs)
+            next to what the actuator actually delivered (green).
+          </p>
+          <p>
+            Real sensors aren't perfect. Open the <b>Sensor</b> panel to add random noise, encoder ticks
+            (the reading jumps in steps) or a delay before the controller sees each reading. The graphs show
+            the measured signal (faint blue) next to the true one. Add a little noise and then raise Kd to see
+            why noisy measurements and D don't mix, or add delay and watch a well-tuned loop start to wobble.
+          </p>
+          <p>
+            On a robot the controller is a piece of code that runs every few milliseconds, not continuously. Under
+            <b> Simulation</b> you can slow the <i>controller period</i> down. Between updates the motor keeps the
+            last command (a zero-order hold), drawn as grey stairs on the output graph. Real loops also run a little
+            early or late each time (<i>jitter</i>), and often the new command only goes out at the next tick
+            because the math took time to finish. Every one of these adds delay, so gains that worked at 10 ms can
+            oscillate at 50 ms.
+          </p>
+          <p>
+            Motion profiles: real robots rarely ask a mechanism to teleport to a new goal. On the sled, arm or elevator, pick
+            Trapezoid or S‑curve below and each new setpoint becomes a smooth path with a speed limit and an
+            acceleration limit (and, for the S‑curve, a jerk limit). The PID follows that path (the dashed
+            orange line in the graphs) instead of the raw goal, so it stays out of saturation and D no longer
+            kicks when you click the bar.
+          </p>
+          <p>
+            Drivetrains and lifts are usually run as a <b>Cascade</b>: an outer loop looks at position and decides
+            how fast the mechanism should be moving, and a fast inner loop adjusts the motor command to hit that
+            speed. Tune the inner loop first so velocity tracks its reference closely (the extra graph shows both).
+            Then tune the outer loop on top. The outer loop can run slower than the inner one; try raising
+            "every N periods" to see how much slack there is.
+          </p>
+          <p>
+            Flywheels are often run without a PID at all. <b>Take-back-half</b> keeps raising the output while the
+            wheel is too slow and lowering it while it's too fast. Every time the speed crosses the target, it
+            jumps back to halfway between the current output and the one from the last crossing, so it homes in
+            on the right power. <b>Bang-bang</b> is even simpler: full power whenever the wheel is too slow, and a
+            small feedforward floor otherwise. Pick one under <b>Velocity controller</b> on the flywheel, or press
+            "Compare recovery" to race all three against the same load step.
+          </p>
+          <p>
+            One set of gains doesn't always fit the whole range. An arm held out flat needs a lot more help than one
+            hanging straight down, and a flywheel behaves differently at low and high speed. A <b>Gain schedule</b>
+            stores a few rows of gains, each at an <i>operating point</i> (the size of the error, the setpoint or the
+            measured output). In between rows the controller blends the gains smoothly, and an extra graph shows
+            which gains are active at each moment. Tune at one point, add a row, move to another point and repeat.
+          </p>
+          <p>
+            Instead of guessing gains, try <b>Auto-tune</b>. It swaps the PID for a relay that just slams the
+            output between +d and −d every time the error changes sign. Most plants respond by settling into a
+            steady wobble. The size and period of that wobble give the <i>ultimate gain</i> Ku and
+            <i> ultimate period</i> Tu, and classic rules like Ziegler–Nichols turn those two numbers into
+            Kp, Ki and Kd. The experiment appears on the graphs, and you decide whether to keep the result.
+          </p>
+          <p>
+            The <b>Optimizer</b> goes one step further: it simulates a step response on the same hidden plant
+            hundreds of times, nudging the gains each time to shrink a score. IAE adds up the error, ISE
+            punishes big errors more, and ITAE punishes errors that hang around late. You can also cap the
+            overshoot and the time spent maxed out. Because it runs the real sim, the answer already accounts
+            for the deadband, the actuator lag and your anti-windup setting.
+          </p>
+          <p>
+            Engineers often measure a mechanism before tuning it. <b>Identify plant</b> applies a fixed command
+            with no feedback at all and records what happens. A flywheel speeds up and levels off, which fits a
+            "first order plus dead time" model. A sled just keeps moving, which fits an "integrator plus dead
+            time" model. Rules like IMC/lambda and SIMC then turn the model into gains. You choose λ, how fast
+            the loop should respond: smaller is faster but less forgiving if the model is off.
+          </p>
+          <p>
+            The <b>Bode plot</b> shows the same loop in terms of frequency: how much the controller, actuator and
+            plant together amplify a wiggle of each speed (top) and how far they delay it (bottom). Where the gain
+            drops through 0 dB is the <i>crossover</i>. The <i>phase margin</i> is how far the phase is from −180°
+            there. The <i>gain margin</i> is how much more gain it would take to reach 0 dB where the phase hits
+            −180°. Small margins mean the wobble you see on the graphs. Raise Kp and watch them shrink.
+          </p>
+          <p>
+            Ready to test yourself? Open <b>Challenge</b>. In <i>Guess the plant</i> you get a mystery sled or
+            flywheel. Use any experiment you like to estimate its top speed per unit of command and its time
+            constant, then reveal the real plant and see how close you got. In <i>Tuning goals</i> the app runs
+            a step with your gains and checks it against targets like "under 5% overshoot, settled in 1.5 s".
+          </p>
         </div>
         <div className="interactive">
           <div className="row" style={{ gap: 12, marginBottom: 12, alignItems: 'center' }}>
@@ -1221,29 +1803,45 @@ export function Playground(): JSX.Element {
             <div className="segmented">
               <button
                 className={(paramsPID.plant ?? 'sled') === 'sled' ? 'is-active' : ''}
+                disabled={challengePID}
                 onClick={() => setParamsPID(p => ({ ...p, plant: 'sled' }))}
               >Sled</button>
               <button
                 className={(paramsPID.plant ?? 'sled') === 'flywheel' ? 'is-active' : ''}
+                disabled={challengePID}
                 onClick={() => setParamsPID(p => ({ ...p, plant: 'flywheel' }))}
               >Flywheel</button>
+              <button
+                className={paramsPID.plant === 'arm' ? 'is-active' : ''}
+                disabled={challengePID}
+                onClick={() => setParamsPID(p => ({ ...p, plant: 'arm' }))}
+              >Arm</button>
+              <button
+                className={paramsPID.plant === 'elevator' ? 'is-active' : ''}
+                disabled={challengePID}
+                onClick={() => setParamsPID(p => ({ ...p, plant: 'elevator' }))}
+              >Elevator</button>
             </div>
           </div>
           <div className="position-bar-outer">
-            <div
-              ref={barRefPID}
-              className="position-bar"
-              onMouseDown={(e) => setpointFromClickPID(e.clientX)}
-              onClick={(e) => setpointFromClickPID(e.clientX)}
-            >
-              <BarMarkers y={latestYPID} sp={paramsPID.setpoint} min={rangeMin} max={rangeMax} />
-            </div>
+            {paramsPID.plant === 'arm' ? (
+              <ArmView angle={latestYPID} setpoint={paramsPID.setpoint} onSetpoint={(sp) => setParamsPID(p => ({ ...p, setpoint: sp }))} />
+            ) : (
+              <div
+                ref={barRefPID}
+                className="position-bar"
+                onMouseDown={(e) => setpointFromClickPID(e.clientX)}
+                onClick={(e) => setpointFromClickPID(e.clientX)}
+              >
+                <BarMarkers y={latestYPID} sp={paramsPID.setpoint} min={barRange(paramsPID.plant).min} max={barRange(paramsPID.plant).max} />
+              </div>
+            )}
 
             <div className="row" style={{ justifyContent: 'flex-start', marginTop: 8, gap: 16 }}>
-              <span>Click anywhere on the bar to set the setpoint</span>
+              <span>Click to set the setpoint</span>
               <span>
                 Setpoint: {paramsPID.setpoint.toFixed(2)} |
-                {(paramsPID.plant ?? 'sled') === 'flywheel' ? ' Speed' : ' Position'}:
+                {' '}{outputLabel(paramsPID.plant)}:
                 {' '}{latestYPID.toFixed(2)}
               </span>
             </div>
@@ -1256,14 +1854,14 @@ export function Playground(): JSX.Element {
                 max="10"
                 step="0.01"
                 value={paramsPID.kp}
-                onChange={(e) => setParamsPID(p => ({ ...p, kp: Number(e.target.value) }))}
+                onChange={(e) => setParamsPID(p => withGains(p, { kp: Number(e.target.value) }))}
                 style={{ flex: 1 }}
               />
               <input
                 type="number"
                 value={paramsPID.kp}
                 step={0.01}
-                onChange={(e) => setParamsPID(p => ({ ...p, kp: Number(e.target.value) }))}
+                onChange={(e) => setParamsPID(p => withGains(p, { kp: Number(e.target.value) }))}
               />
             </div>
             <div className="row" style={{ width: '100%' }}>
@@ -1275,14 +1873,14 @@ export function Playground(): JSX.Element {
                 max="5"
                 step="0.001"
                 value={paramsPID.ki ?? 0}
-                onChange={(e) => setParamsPID(p => ({ ...p, ki: Number(e.target.value) }))}
+                onChange={(e) => setParamsPID(p => withGains(p, { ki: Number(e.target.value) }))}
                 style={{ flex: 1 }}
               />
               <input
                 type="number"
                 value={paramsPID.ki ?? 0}
                 step={0.001}
-                onChange={(e) => setParamsPID(p => ({ ...p, ki: Number(e.target.value) }))}
+                onChange={(e) => setParamsPID(p => withGains(p, { ki: Number(e.target.value) }))}
               />
             </div>
             <div className="row" style={{ width: '100%' }}>
@@ -1294,35 +1892,69 @@ export function Playground(): JSX.Element {
                 max="5"
                 step="0.001"
                 value={paramsPID.kd ?? 0}
-                onChange={(e) => setParamsPID(p => ({ ...p, kd: Number(e.target.value) }))}
+                onChange={(e) => setParamsPID(p => withGains(p, { kd: Number(e.target.value) }))}
                 style={{ flex: 1 }}
               />
               <input
                 type="number"
                 value={paramsPID.kd ?? 0}
                 step={0.001}
-                onChange={(e) => setParamsPID(p => ({ ...p, kd: Number(e.target.value) }))}
+                onChange={(e) => setParamsPID(p => withGains(p, { kd: Number(e.target.value) }))}
               />
             </div>
+            <FormControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} terms="pid" />
+            <DerivativeControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} />
+            <SetpointWeightControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} worker={workerPID} />
+            <SensorControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} />
+            <AntiWindupControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} />
+            <ProfileControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} />
+            <DisturbanceControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} worker={workerPID} />
+            <ActuatorControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} />
+            <MotorControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} />
+            <SimulationControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} />
+            <CascadeControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} />
+            <VelocityControllerControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} worker={workerPID} />
+            <GainScheduleControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} />
+            <AutoTuneControls
+              idSuffix="PID"
+              params={paramsPID}
+              setParams={setParamsPID}
+              worker={workerPID}
+              onExperiment={(trace) => {
+                relayReviewPID.current = true;
+                dataBufferPID.current = { type: 'data', ...trace };
+                setIsRunningPID(false);
+                setGraphsOpenPID(true);
+              }}
+              onDone={() => {
+                relayReviewPID.current = false;
+                setIsRunningPID(true);
+              }}
+            />
+            <OptimizerControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} worker={workerPID} />
+            <IdentifyControls idSuffix="PID" params={paramsPID} setParams={setParamsPID} worker={workerPID} hideTruth={challengePID} />
+            <BodePanel params={paramsPID} hideTruth={challengePID} />
+            <RootLocusPanel params={paramsPID} hideTruth={challengePID} />
+            <ChallengeControls
+              idSuffix="PID"
+              params={paramsPID}
+              setParams={setParamsPID}
+              worker={workerPID}
+              guessing={challengePID}
+              onGuessingChange={setChallengePID}
+              onNewPlant={loadSeedPID}
+            />
           </div>
 
           <div className="row toolbar" style={{ justifyContent: 'flex-start', gap: 12, margin: '12px 0' }}>
-            <details onToggle={(e) => setGraphsOpenPID((e.target as HTMLDetailsElement).open)}>
+            <details open={graphsOpenPID} onToggle={(e) => setGraphsOpenPID((e.target as HTMLDetailsElement).open)}>
               <summary style={{ cursor: 'pointer' }}>Graphs</summary>
             </details>
             <div className="row button-row" style={{ gap: 8 }}>
               <button onClick={() => setIsRunningPID(r => !r)}>{isRunningPID ? 'Pause' : 'Play'}</button>
               <button onClick={() => setResetCounterPID(c => c + 1)}>Reset/Start</button>
-              <button onClick={() => {
-                setParamsPID(p => ({
-                  ...p,
-                  friction: +(Math.random() * 3.0).toFixed(2),
-                  drag: +(Math.random() * 2.0).toFixed(2),
-                  inertiaJ: +(0.001 + Math.random() * (0.2 - 0.001)).toFixed(3),
-                  loadTorque: +(Math.random() * 1.0).toFixed(2)
-                }));
-                workerPID.postMessage({ type: 'randomize' });
-              }}>Randomize System</button>
+              <button disabled={challengePID} onClick={() => loadSeedPID(randomSeed())}>Randomize System</button>
+              <SeedControls seed={paramsPID.seed} onLoad={loadSeedPID} hideSeed={challengePID} locked={challengePID} />
             </div>
           </div>
 
@@ -1330,8 +1962,122 @@ export function Playground(): JSX.Element {
             <>
               <div className="chart" ref={yPlotRefPID} />
               <div className="chart" ref={uPlotRefPID} />
+              {paramsPID.motorModel && <div className="chart" ref={mPlotRefPID} />}
+              {paramsPID.controller === 'cascade' && <div className="chart" ref={cPlotRefPID} />}
+              {(paramsPID.scheduleBy ?? 'none') !== 'none' && <div className="chart" ref={gPlotRefPID} />}
             </>
           )}
+          <MetricsPanel idSuffix="PID" data={dataBufferPID.current} bandRef={settleBandPID} limits={actuatorLimits(paramsPID)} />
+        </div>
+      </div>
+      <div className="card" style={{ marginTop: 24 }}>
+        <h2 className="section-title">Feedforward + PID</h2>
+        <div className="controls">
+          <p>
+            Everything so far has been <i>feedback</i>: the controller waits until it sees an error and then
+            reacts. Real robots almost always add <i>feedforward</i> on top. Feedforward uses what we already
+            know about the mechanism to guess the command it needs, before any error shows up. The PID
+            then only has to clean up whatever the guess got wrong.
+          </p>
+          <ul>
+            <li><b>kS (static)</b>: a small push in the direction of travel to break through friction.</li>
+            <li><b>kV (velocity)</b>: command per unit of target speed. For a flywheel this does most of the work.</li>
+            <li><b>kA (acceleration)</b>: extra command while the target is speeding up or slowing down.</li>
+            <li><b>kG (gravity)</b>: a constant command that holds the mechanism up against gravity.</li>
+          </ul>
+          <p>
+            Tuning tip: on the flywheel, set Kp, Ki and Kd to zero and raise kV until the speed lands close to
+            the setpoint on its own. Add kS if it always falls a bit short, then add a small Kp to remove what's
+            left. Open the graphs to watch the feedforward (orange) carry most of the command while the
+            feedback (purple) stays small.
+          </p>
+        </div>
+        <div className="interactive">
+          <div className="row" style={{ gap: 12, marginBottom: 12, alignItems: 'center' }}>
+            <span>Plant</span>
+            <div className="segmented">
+              <button
+                className={(paramsFF.plant ?? 'sled') === 'sled' ? 'is-active' : ''}
+                onClick={() => setParamsFF(p => ({ ...p, plant: 'sled' }))}
+              >Sled</button>
+              <button
+                className={(paramsFF.plant ?? 'sled') === 'flywheel' ? 'is-active' : ''}
+                onClick={() => setParamsFF(p => ({ ...p, plant: 'flywheel' }))}
+              >Flywheel</button>
+              <button
+                className={paramsFF.plant === 'arm' ? 'is-active' : ''}
+                onClick={() => setParamsFF(p => ({ ...p, plant: 'arm' }))}
+              >Arm</button>
+              <button
+                className={paramsFF.plant === 'elevator' ? 'is-active' : ''}
+                onClick={() => setParamsFF(p => ({ ...p, plant: 'elevator' }))}
+              >Elevator</button>
+            </div>
+          </div>
+          <div className="position-bar-outer">
+            {paramsFF.plant === 'arm' ? (
+              <ArmView angle={latestYFF} setpoint={paramsFF.setpoint} onSetpoint={(sp) => setParamsFF(p => ({ ...p, setpoint: sp }))} />
+            ) : (
+              <div
+                ref={barRefFF}
+                className="position-bar"
+                onMouseDown={(e) => setpointFromClickFF(e.clientX)}
+                onClick={(e) => setpointFromClickFF(e.clientX)}
+              >
+                <BarMarkers y={latestYFF} sp={paramsFF.setpoint} min={barRange(paramsFF.plant).min} max={barRange(paramsFF.plant).max} />
+              </div>
+            )}
+
+            <div className="row" style={{ justifyContent: 'flex-start', marginTop: 8, gap: 16 }}>
+              <span>Click to set the setpoint</span>
+              <span>
+                Setpoint: {paramsFF.setpoint.toFixed(2)} |
+                {' '}{outputLabel(paramsFF.plant)}:
+                {' '}{latestYFF.toFixed(2)}
+              </span>
+            </div>
+            <ParamSlider id="kSFF" label="kS" min={0} max={1} step={0.001} value={paramsFF.kS ?? 0}
+              onChange={(v) => setParamsFF(p => ({ ...p, kS: v }))} />
+            <ParamSlider id="kVFF" label="kV" min={0} max={5} step={0.001} value={paramsFF.kV ?? 0}
+              onChange={(v) => setParamsFF(p => ({ ...p, kV: v }))} />
+            <ParamSlider id="kAFF" label="kA" min={0} max={1} step={0.001} value={paramsFF.kA ?? 0}
+              onChange={(v) => setParamsFF(p => ({ ...p, kA: v }))} />
+            <ParamSlider id="kGFF" label="kG" min={-1} max={1} step={0.001} value={paramsFF.kG ?? 0}
+              onChange={(v) => setParamsFF(p => ({ ...p, kG: v }))} />
+            <ParamSlider id="kpFF" label="Kp" min={0} max={10} step={0.01} value={paramsFF.kp}
+              onChange={(v) => setParamsFF(p => withGains(p, { kp: v }))} />
+            <ParamSlider id="kiFF" label="Ki" min={0} max={5} step={0.001} value={paramsFF.ki ?? 0}
+              onChange={(v) => setParamsFF(p => withGains(p, { ki: v }))} />
+            <ParamSlider id="kdFF" label="Kd" min={0} max={5} step={0.001} value={paramsFF.kd ?? 0}
+              onChange={(v) => setParamsFF(p => withGains(p, { kd: v }))} />
+            <FormControls idSuffix="FF" params={paramsFF} setParams={setParamsFF} terms="pid" />
+            <ProfileControls idSuffix="FF" params={paramsFF} setParams={setParamsFF} />
+            <DisturbanceControls idSuffix="FF" params={paramsFF} setParams={setParamsFF} worker={workerFF} />
+            <ActuatorControls idSuffix="FF" params={paramsFF} setParams={setParamsFF} />
+            <MotorControls idSuffix="FF" params={paramsFF} setParams={setParamsFF} />
+            <SimulationControls idSuffix="FF" params={paramsFF} setParams={setParamsFF} />
+          </div>
+
+          <div className="row toolbar" style={{ justifyContent: 'flex-start', gap: 12, margin: '12px 0' }}>
+            <details onToggle={(e) => setGraphsOpenFF((e.target as HTMLDetailsElement).open)}>
+              <summary style={{ cursor: 'pointer' }}>Graphs</summary>
+            </details>
+            <div className="row button-row" style={{ gap: 8 }}>
+              <button onClick={() => setIsRunningFF(r => !r)}>{isRunningFF ? 'Pause' : 'Play'}</button>
+              <button onClick={() => setResetCounterFF(c => c + 1)}>Reset/Start</button>
+              <button onClick={() => loadSeedFF(randomSeed())}>Randomize System</button>
+              <SeedControls seed={paramsFF.seed} onLoad={loadSeedFF} />
+            </div>
+          </div>
+
+          {graphsOpenFF && (
+            <>
+              <div className="chart" ref={yPlotRefFF} />
+              <div className="chart" ref={uPlotRefFF} />
+              {paramsFF.motorModel && <div className="chart" ref={mPlotRefFF} />}
+            </>
+          )}
+          <MetricsPanel idSuffix="FF" data={dataBufferFF.current} bandRef={settleBandFF} limits={actuatorLimits(paramsFF)} />
         </div>
       </div>
       <div className="card" style={{ marginTop: 24 }}>
@@ -1346,6 +2092,101 @@ export function Playground(): JSX.Element {
   );
 }
 
+function exposedPlantParams(seed: number): Pick<SimParams, 'friction' | 'drag' | 'inertiaJ' | 'loadTorque'> {
+  const { friction, drag, inertiaJ, loadTorque } = plantFromSeed(seed);
+  return { friction, drag, inertiaJ, loadTorque };
+}
+
+// Shows which plant this card is running and lets a class load the same one
+// hideSeed keeps a mystery plant's seed secret, since loading it elsewhere would give the plant away,
+// and locked stops another plant replacing it before the reveal
+function SeedControls({ seed, onLoad, hideSeed = false, locked = false }: {
+  seed?: number;
+  onLoad: (seed: number) => void;
+  hideSeed?: boolean;
+  locked?: boolean;
+}): JSX.Element {
+  const [text, setText] = useState('');
+  const typed = Math.floor(Math.abs(Number(text)));
+  return (
+    <div className="row" style={{ gap: 8 }}>
+      <span>Seed <b>{hideSeed ? 'hidden' : seed ?? '—'}</b></span>
+      <input
+        type="number"
+        placeholder="Seed"
+        value={text}
+        min={0}
+        step={1}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <button disabled={locked || text === '' || !Number.isFinite(typed)} onClick={() => onLoad(typed)}>Load plant</button>
+    </div>
+  );
+}
+
+function yChartTitle(plant: SimParams['plant']): string {
+  switch (plant ?? 'sled') {
+    case 'flywheel': return 'Setpoint (black) and Speed ω (blue)';
+    case 'arm': return 'Setpoint (black) and Angle θ in rad (blue)';
+    default: return 'Setpoint (black) and Position y (blue)';
+  }
+}
+
+function outputLabel(plant: SimParams['plant']): string {
+  switch (plant ?? 'sled') {
+    case 'flywheel': return 'Speed';
+    case 'arm': return 'Angle (rad)';
+    default: return 'Position';
+  }
+}
+
+// Setpoint range covered by the horizontal position bar (the elevator's travel is 0..2 m)
+function barRange(plant: SimParams['plant']): { min: number; max: number } {
+  return plant === 'elevator' ? { min: 0, max: 2 } : { min: -5, max: 5 };
+}
+
+// Side view of the arm: pivot on the left, hard stops straight down and straight up.
+// Click anywhere to aim the setpoint at that angle.
+function ArmView({ angle, setpoint, onSetpoint }: {
+  angle: number;
+  setpoint: number;
+  onSetpoint: (sp: number) => void;
+}): JSX.Element {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const cx = 40;
+  const cy = 100;
+  const len = 80;
+  const tip = (a: number) => ({ x: cx + len * Math.cos(a), y: cy - len * Math.sin(a) });
+  const arm = tip(angle);
+  const sp = tip(setpoint);
+  function setFromPointer(clientX: number, clientY: number) {
+    const el = svgRef.current;
+    if (!el) return;
+    const rect = el.getBoundingClientRect();
+    const x = ((clientX - rect.left) / rect.width) * 200 - cx;
+    const y = cy - ((clientY - rect.top) / rect.height) * 200;
+    const a = Math.atan2(y, Math.max(x, 0));
+    onSetpoint(Math.max(-Math.PI / 2, Math.min(Math.PI / 2, a)));
+  }
+  return (
+    <svg
+      ref={svgRef}
+      className="arm-view"
+      viewBox="0 0 200 200"
+      onMouseDown={(e) => setFromPointer(e.clientX, e.clientY)}
+      onClick={(e) => setFromPointer(e.clientX, e.clientY)}
+    >
+      <path d={`M ${cx} ${cy - len} A ${len} ${len} 0 0 1 ${cx} ${cy + len}`} fill="none" stroke="var(--border)" strokeWidth={2} />
+      <line x1={cx - 8} y1={cy + len} x2={cx + 8} y2={cy + len} stroke="var(--muted)" strokeWidth={4} />
+      <line x1={cx - 8} y1={cy - len} x2={cx + 8} y2={cy - len} stroke="var(--muted)" strokeWidth={4} />
+      <line x1={cx} y1={cy} x2={sp.x} y2={sp.y} stroke="var(--text)" strokeWidth={2} strokeDasharray="4 4" />
+      <line x1={cx} y1={cy} x2={arm.x} y2={arm.y} stroke="var(--primary)" strokeWidth={6} strokeLinecap="round" />
+      <circle cx={arm.x} cy={arm.y} r={7} fill="var(--primary)" />
+      <circle cx={cx} cy={cy} r={5} fill="var(--text)" />
+    </svg>
+  );
+}
+
 function BarMarkers({ y, sp, min, max }: { y: number; sp: number; min: number; max: number }): JSX.Element {
   const span = max - min;
   const yPct = ((y - min) / span) * 100;
@@ -1358,6 +2199,1760 @@ function BarMarkers({ y, sp, min, max }: { y: number; sp: number; min: number; m
   );
 }
 
+function CascadeControls({ idSuffix, params, setParams }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+}): JSX.Element {
+  const enabled = params.controller === 'cascade';
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Cascade</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <label style={{ margin: 0 }}>
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setParams(p => ({ ...p, controller: e.target.checked ? 'cascade' : 'pid' }))}
+          />{' '}
+          Position loop (Kp, Ki, Kd above) drives an inner velocity loop
+        </label>
+        {enabled && params.plant === 'flywheel' && (
+          <span style={{ color: 'var(--muted)' }}>(position plants only; the flywheel keeps a single loop)</span>
+        )}
+        {enabled && (
+          <>
+            <ParamSlider id={`innerKp${idSuffix}`} label="Inner Kp" min={0} max={10} step={0.01} value={params.innerKp ?? 0.5}
+              onChange={(v) => setParams(p => ({ ...p, innerKp: v }))} />
+            <ParamSlider id={`innerKi${idSuffix}`} label="Inner Ki" min={0} max={10} step={0.01} value={params.innerKi ?? 0}
+              onChange={(v) => setParams(p => ({ ...p, innerKi: v }))} />
+            <ParamSlider id={`innerKd${idSuffix}`} label="Inner Kd" min={0} max={1} step={0.001} value={params.innerKd ?? 0}
+              onChange={(v) => setParams(p => ({ ...p, innerKd: v }))} />
+            <ParamSlider id={`outerDivider${idSuffix}`} label="Outer loop every N periods" min={1} max={20} step={1} value={params.outerDivider ?? 1}
+              onChange={(v) => setParams(p => ({ ...p, outerDivider: v }))} />
+            <ParamSlider id={`maxInnerVel${idSuffix}`} label="Max velocity ref" min={0.1} max={10} step={0.1} value={params.maxInnerVel ?? 2}
+              onChange={(v) => setParams(p => ({ ...p, maxInnerVel: v }))} />
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+// Flywheel comparison: spin up from rest, then a load step part way through
+const COMPARE_LOAD_AT = 6;
+const COMPARE_DURATION = 12;
+const COMPARE_BAND = 0.05;
+
+type VelocityController = 'pid' | 'tbh' | 'bang-bang';
+
+const VELOCITY_CONTROLLERS: { id: VelocityController; label: string; color: string }[] = [
+  { id: 'pid', label: 'PID', color: 'rgb(37,99,235)' },
+  { id: 'tbh', label: 'Take-back-half', color: 'green' },
+  { id: 'bang-bang', label: 'Bang-bang', color: 'crimson' }
+];
+
+// Busy flag and error message for a panel's headless runs. A run cancelled by a Reset is
+// dropped quietly; any other failure is kept for the panel to show.
+function useHeadlessTask(): { busy: boolean; error: string | null; track: (task: () => Promise<void>) => Promise<void> } {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  async function track(task: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      if (!(err instanceof RunCancelledError)) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+  return { busy, error, track };
+}
+
+function VelocityControllerControls({ idSuffix, params, setParams, worker }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+  worker: Worker;
+}): JSX.Element {
+  const [load, setLoad] = useState(0.2);
+  const { busy, error, track } = useHeadlessTask();
+  const [result, setResult] = useState<{
+    t: number[];
+    sp: number[];
+    traces: { label: string; color: string; y: number[]; spinUp: Recovery; recovery: Recovery }[];
+  } | null>(null);
+  const chartRef = useRef<HTMLDivElement | null>(null);
+  const isFlywheel = params.plant === 'flywheel';
+  const selected: VelocityController = params.controller === 'tbh' || params.controller === 'bang-bang' ? params.controller : 'pid';
+  function compare() {
+    track(async () => {
+      const traces = [];
+      let trace: RunTrace | null = null;
+      // Same hidden flywheel, same target and the same load step for each controller
+      for (const { id, label, color } of VELOCITY_CONTROLLERS) {
+        trace = await runHeadless(worker, {
+          params: { ...params, controller: id, disturbances: [{ kind: 'step', at: COMPARE_LOAD_AT, magnitude: -load }] },
+          duration: COMPARE_DURATION
+        });
+        traces.push({
+          label,
+          color,
+          y: trace.y,
+          spinUp: disturbanceRecovery(trace.t, trace.y, trace.sp, 0, COMPARE_LOAD_AT, COMPARE_BAND),
+          recovery: disturbanceRecovery(trace.t, trace.y, trace.sp, COMPARE_LOAD_AT, COMPARE_DURATION, COMPARE_BAND)
+        });
+      }
+      if (trace) setResult({ t: trace.t, sp: trace.sp, traces });
+    });
+  }
+  useEffect(() => {
+    if (!result || !chartRef.current) return;
+    const chart = new uPlot(
+      {
+        title: `Speed with a load step at ${COMPARE_LOAD_AT} s`,
+        width: chartRef.current.clientWidth || 600,
+        height: 220,
+        scales: { x: { time: false } },
+        series: [
+          {},
+          { label: 'Setpoint', stroke: 'black', dash: [4, 4] },
+          ...result.traces.map(r => ({ label: r.label, stroke: r.color }))
+        ]
+      },
+      [result.t, result.sp, ...result.traces.map(r => r.y)] as AlignedData,
+      chartRef.current
+    );
+    return () => chart.destroy();
+  }, [result]);
+  const fmt = (x: number | null) => (x === null ? 'never' : `${x.toFixed(2)} s`);
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Velocity controller</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+          <span>Controller</span>
+          <div className="segmented">
+            {VELOCITY_CONTROLLERS.map(c => (
+              <button
+                key={c.id}
+                className={selected === c.id ? 'is-active' : ''}
+                onClick={() => setParams(p => ({ ...p, controller: c.id }))}
+              >{c.label}</button>
+            ))}
+          </div>
+        </div>
+        {!isFlywheel && <span style={{ color: 'var(--muted)' }}>(flywheel only; other plants keep the PID)</span>}
+        {selected === 'tbh' && (
+          <>
+            <ParamSlider id={`tbhGain${idSuffix}`} label="TBH gain" min={0} max={5} step={0.01} value={params.tbhGain ?? 1}
+              onChange={(v) => setParams(p => ({ ...p, tbhGain: v }))} />
+            <ParamSlider id={`tbhInitial${idSuffix}`} label="Initial take-back value" min={0} max={1} step={0.01} value={params.tbhInitial ?? 0.5}
+              onChange={(v) => setParams(p => ({ ...p, tbhInitial: v }))} />
+          </>
+        )}
+        {selected === 'bang-bang' && (
+          <>
+            <ParamSlider id={`bangOn${idSuffix}`} label="Full power when this far below" min={0} max={2} step={0.01} value={params.bangOn ?? 0}
+              onChange={(v) => setParams(p => ({ ...p, bangOn: v }))} />
+            <ParamSlider id={`bangOff${idSuffix}`} label="Back to floor when error under" min={-1} max={1} step={0.01} value={params.bangOff ?? 0}
+              onChange={(v) => setParams(p => ({ ...p, bangOff: v }))} />
+            <ParamSlider id={`bangFloor${idSuffix}`} label="Feedforward floor" min={0} max={1} step={0.01} value={params.bangFloor ?? 0.3}
+              onChange={(v) => setParams(p => ({ ...p, bangFloor: v }))} />
+          </>
+        )}
+        <ParamSlider id={`compareLoad${idSuffix}`} label="Load step (torque)" min={0} max={1} step={0.01} value={load} onChange={setLoad} />
+        <div className="row button-row" style={{ gap: 8 }}>
+          <button disabled={busy || !isFlywheel} onClick={compare}>{busy ? 'Running…' : 'Compare recovery'}</button>
+          {error && <span style={{ color: 'rgb(220,38,38)' }}>{error}</span>}
+        </div>
+        {result && (
+          <>
+            {result.traces.map(r => (
+              <span key={r.label}>
+                {r.label}: up to speed in {fmt(r.spinUp.recoveryTime)},
+                {' '}is knocked up to {r.recovery.maxError.toFixed(2)} off target by the load and recovers in {fmt(r.recovery.recoveryTime)}
+                {' '}(±{COMPARE_BAND * 100}%)
+              </span>
+            ))}
+            <div ref={chartRef} />
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+const SCHEDULE_VARIABLES: { id: NonNullable<SimParams['scheduleBy']>; label: string }[] = [
+  { id: 'none', label: 'Off' },
+  { id: 'error', label: '|Error|' },
+  { id: 'setpoint', label: 'Setpoint' },
+  { id: 'measured', label: 'Measured output' }
+];
+
+function GainScheduleControls({ idSuffix, params, setParams }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+}): JSX.Element {
+  const [at, setAt] = useState(0);
+  const by = params.scheduleBy ?? 'none';
+  const points = [...(params.gainSchedule ?? [])].sort((a, b) => a.at - b.at);
+  // Rows are added from the Kp/Ki/Kd sliders, replacing any row at the same operating point
+  const addRow = () => setParams(p => ({
+    ...p,
+    gainSchedule: [
+      ...(p.gainSchedule ?? []).filter(g => g.at !== at),
+      { at, kp: p.kp, ki: p.ki ?? 0, kd: p.kd ?? 0 }
+    ]
+  }));
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Gain schedule</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+          <span>Schedule on</span>
+          <div className="segmented">
+            {SCHEDULE_VARIABLES.map(v => (
+              <button
+                key={v.id}
+                className={by === v.id ? 'is-active' : ''}
+                onClick={() => setParams(p => ({ ...p, scheduleBy: v.id }))}
+              >{v.label}</button>
+            ))}
+          </div>
+        </div>
+        {by !== 'none' && points.length === 0 && (
+          <span style={{ color: 'var(--muted)' }}>(no rows yet, so the sliders above still set the gains)</span>
+        )}
+        <ParamSlider id={`scheduleAt${idSuffix}`} label="Operating point" min={-5} max={5} step={0.1} value={at} onChange={setAt} />
+        <div className="row button-row" style={{ gap: 8 }}>
+          <button onClick={addRow}>Add current Kp/Ki/Kd at {at.toFixed(1)}</button>
+        </div>
+        {points.length > 0 && (params.form ?? 'parallel') !== 'parallel' && (
+          <span style={{ color: 'var(--muted)' }}>
+            (rows are stored as Kp/Ki/Kd; each interpolated row is converted to Kc/Ti/Td and runs in the{' '}
+            {FORM_LABELS[params.form ?? 'parallel'].toLowerCase()} form, or in parallel form if it has no equivalent)
+          </span>
+        )}
+        {points.length > 0 && (
+          <ul style={{ margin: 0 }}>
+            {points.map((g) => (
+              <li key={g.at}>
+                At {g.at.toFixed(1)}: Kp = {g.kp.toFixed(3)}, Ki = {g.ki.toFixed(3)}, Kd = {g.kd.toFixed(3)}
+                {' '}
+                <button onClick={() => setParams(p => ({ ...p, gainSchedule: (p.gainSchedule ?? []).filter(x => x.at !== g.at) }))}>Remove</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+}
+
+function SimulationControls({ idSuffix, params, setParams }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+}): JSX.Element {
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Simulation</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+          <label htmlFor={`integrator${idSuffix}`} style={{ margin: 0 }}>Integrator</label>
+          <select
+            id={`integrator${idSuffix}`}
+            value={params.integrator ?? 'rk4'}
+            onChange={(e) => setParams(p => ({ ...p, integrator: e.target.value as SimParams['integrator'] }))}
+          >
+            <option value="euler">Euler</option>
+            <option value="semi-implicit">Semi-implicit Euler</option>
+            <option value="rk4">Runge–Kutta 4</option>
+          </select>
+        </div>
+        <ParamSlider id={`substeps${idSuffix}`} label="Physics substeps" min={1} max={50} step={1} value={params.substeps ?? 10}
+          onChange={(v) => setParams(p => ({ ...p, substeps: v }))} />
+        <ParamSlider id={`controlPeriod${idSuffix}`} label="Controller period (ms)" min={1} max={100} step={1}
+          value={Math.round((params.controlPeriod ?? params.dt) * 1000)}
+          onChange={(v) => setParams(p => ({ ...p, controlPeriod: v / 1000 }))} />
+        <ParamSlider id={`controlJitter${idSuffix}`} label="Timing jitter (± ms)" min={0} max={20} step={0.5}
+          value={(params.controlJitter ?? 0) * 1000}
+          onChange={(v) => setParams(p => ({ ...p, controlJitter: v / 1000 }))} />
+        <label style={{ margin: 0 }}>
+          <input
+            type="checkbox"
+            checked={params.computeDelay ?? false}
+            onChange={(e) => setParams(p => ({ ...p, computeDelay: e.target.checked }))}
+          />{' '}
+          One-sample computation delay (each command is applied at the next update)
+        </label>
+      </div>
+    </details>
+  );
+}
+
+function ActuatorControls({ idSuffix, params, setParams }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+}): JSX.Element {
+  const uMax = params.uMax ?? 1;
+  const asymmetric = params.uMin !== undefined;
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Actuator</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <ParamSlider id={`actuatorLag${idSuffix}`} label="Lag τ (s)" min={0.01} max={0.5} step={0.01} value={params.actuatorLag ?? DEFAULT_ACTUATOR_LAG}
+          onChange={(v) => setParams(p => ({ ...p, actuatorLag: v }))} />
+        <ParamSlider id={`actuatorDeadband${idSuffix}`} label="Deadband" min={0} max={0.2} step={0.005} value={params.actuatorDeadband ?? 0.02}
+          onChange={(v) => setParams(p => ({ ...p, actuatorDeadband: v }))} />
+        <ParamSlider id={`slewRate${idSuffix}`} label="Slew rate (/s, 0 = off)" min={0} max={20} step={0.5} value={params.slewRate ?? 0}
+          onChange={(v) => setParams(p => ({ ...p, slewRate: v }))} />
+        <ParamSlider id={`uMax${idSuffix}`} label={asymmetric ? 'Upper limit' : 'Limit (±)'} min={0.1} max={1} step={0.05} value={uMax}
+          onChange={(v) => setParams(p => ({ ...p, uMax: v }))} />
+        <label style={{ margin: 0 }}>
+          <input
+            type="checkbox"
+            checked={asymmetric}
+            onChange={(e) => setParams(p => ({ ...p, uMin: e.target.checked ? -(p.uMax ?? 1) : undefined }))}
+          />{' '}
+          Separate lower limit (e.g. a motor that is weaker in reverse)
+        </label>
+        {asymmetric && (
+          <ParamSlider id={`uMin${idSuffix}`} label="Lower limit" min={-1} max={-0.1} step={0.05} value={params.uMin ?? -uMax}
+            onChange={(v) => setParams(p => ({ ...p, uMin: v }))} />
+        )}
+      </div>
+    </details>
+  );
+}
+
+function MotorControls({ idSuffix, params, setParams }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+}): JSX.Element {
+  const enabled = params.motorModel ?? false;
+  const gravity = params.plant === 'arm' || params.plant === 'elevator';
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>DC motor</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <label style={{ margin: 0 }}>
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setParams(p => ({ ...p, motorModel: e.target.checked }))}
+          />{' '}
+          Drive the plant with a brushed DC motor instead of the ideal actuator
+        </label>
+        {enabled && (
+          <>
+            <ParamSlider id={`stallTorque${idSuffix}`} label="Stall torque" min={0.1} max={10} step={0.1} value={params.stallTorque ?? 2}
+              onChange={(v) => setParams(p => ({ ...p, stallTorque: v }))} />
+            <ParamSlider id={`freeSpeed${idSuffix}`} label="Free speed" min={0.5} max={50} step={0.5} value={params.freeSpeed ?? 5}
+              onChange={(v) => setParams(p => ({ ...p, freeSpeed: v }))} />
+            <ParamSlider id={`gearRatio${idSuffix}`} label="Gear ratio" min={1} max={100} step={1} value={params.gearRatio ?? defaultGearRatio(params.plant)}
+              onChange={(v) => setParams(p => ({ ...p, gearRatio: v }))} />
+            {gravity && (
+              <span style={{ color: 'var(--muted)' }}>
+                On its own the motor can't hold the {params.plant} up against gravity within the current limit.
+                The gearbox multiplies its torque by the ratio and divides its speed by the same amount, so a
+                bigger reduction lifts heavier loads but moves them more slowly.
+              </span>
+            )}
+            <ParamSlider id={`resistance${idSuffix}`} label="Resistance (Ω)" min={0.02} max={1} step={0.01} value={params.resistance ?? 0.1}
+              onChange={(v) => setParams(p => ({ ...p, resistance: v }))} />
+            <ParamSlider id={`supplyVoltage${idSuffix}`} label="Battery (V)" min={6} max={13} step={0.1} value={params.supplyVoltage ?? 12}
+              onChange={(v) => setParams(p => ({ ...p, supplyVoltage: v }))} />
+            <ParamSlider id={`currentLimit${idSuffix}`} label="Current limit (A)" min={1} max={200} step={1} value={params.currentLimit ?? 40}
+              onChange={(v) => setParams(p => ({ ...p, currentLimit: v }))} />
+            <ParamSlider id={`batteryResistance${idSuffix}`} label="Battery R (Ω)" min={0} max={0.1} step={0.001} value={params.batteryResistance ?? 0.02}
+              onChange={(v) => setParams(p => ({ ...p, batteryResistance: v }))} />
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+function DisturbanceControls({ idSuffix, params, setParams, worker }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+  worker: Worker;
+}): JSX.Element {
+  const [kind, setKind] = useState<Disturbance['kind']>('step');
+  const [magnitude, setMagnitude] = useState(0.5);
+  const [at, setAt] = useState(5);
+  const [duration, setDuration] = useState(0);
+  const [period, setPeriod] = useState(1);
+  // Duration 0 means "until reset"; impulses have no duration
+  const build = (): Omit<Disturbance, 'at'> => ({
+    kind,
+    magnitude,
+    duration: kind !== 'impulse' && duration > 0 ? duration : undefined,
+    period: kind === 'periodic' ? period : undefined
+  });
+  const scheduled = params.disturbances ?? [];
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Disturbances</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+          <span>Type</span>
+          <div className="segmented">
+            <button className={kind === 'step' ? 'is-active' : ''} onClick={() => setKind('step')}>Load step</button>
+            <button className={kind === 'impulse' ? 'is-active' : ''} onClick={() => setKind('impulse')}>Bump</button>
+            <button className={kind === 'periodic' ? 'is-active' : ''} onClick={() => setKind('periodic')}>Periodic</button>
+          </div>
+        </div>
+        <ParamSlider id={`distMag${idSuffix}`} label="Size" min={-2} max={2} step={0.01} value={magnitude} onChange={setMagnitude} />
+        {kind !== 'impulse' && (
+          <ParamSlider id={`distDuration${idSuffix}`} label="Duration (s, 0 = until reset)" min={0} max={10} step={0.1} value={duration} onChange={setDuration} />
+        )}
+        {kind === 'periodic' && (
+          <ParamSlider id={`distPeriod${idSuffix}`} label="Period (s)" min={0.1} max={5} step={0.1} value={period} onChange={setPeriod} />
+        )}
+        <ParamSlider id={`distAt${idSuffix}`} label="At time (s)" min={0} max={60} step={0.1} value={at} onChange={setAt} />
+        <div className="row button-row" style={{ gap: 8 }}>
+          <button onClick={() => worker.postMessage({ type: 'disturb', disturbance: build() })}>Apply now</button>
+          <button onClick={() => setParams(p => ({ ...p, disturbances: [...(p.disturbances ?? []), { ...build(), at }] }))}>
+            Schedule at {at.toFixed(1)} s
+          </button>
+        </div>
+        {scheduled.length > 0 && (
+          <ul style={{ margin: 0 }}>
+            {scheduled.map((d, i) => (
+              <li key={i}>
+                {d.kind === 'step' ? 'Load step' : d.kind === 'impulse' ? 'Bump' : 'Periodic'} of {d.magnitude.toFixed(2)} at {d.at.toFixed(1)} s
+                {d.duration !== undefined ? ` for ${d.duration.toFixed(1)} s` : ''}
+                {' '}
+                <button onClick={() => setParams(p => ({ ...p, disturbances: (p.disturbances ?? []).filter((_, j) => j !== i) }))}>Remove</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+}
+
+function SensorControls({ idSuffix, params, setParams }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+}): JSX.Element {
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Sensor</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <ParamSlider id={`noiseSigma${idSuffix}`} label="Noise σ" min={0} max={0.2} step={0.001} value={params.noiseSigma ?? 0}
+          onChange={(v) => setParams(p => ({ ...p, noiseSigma: v }))} />
+        <ParamSlider id={`quantization${idSuffix}`} label="Tick size" min={0} max={0.2} step={0.001} value={params.quantization ?? 0}
+          onChange={(v) => setParams(p => ({ ...p, quantization: v }))} />
+        <ParamSlider id={`sensorDelay${idSuffix}`} label="Delay (samples)" min={0} max={20} step={1} value={params.sensorDelay ?? 0}
+          onChange={(v) => setParams(p => ({ ...p, sensorDelay: v }))} />
+      </div>
+    </details>
+  );
+}
+
+// Set parallel gains and keep the selected form's Kc/Ti/Td in step with them. Gains with no
+// equivalent in that form clear Kc/Ti/Td, so the worker falls back to Kp/Ki/Kd.
+function withGains(p: SimParams, gains: Partial<ParallelGains>): SimParams {
+  const next = { ...p, ...gains };
+  const form = next.form ?? 'parallel';
+  if (form === 'parallel') return next;
+  const g = fromParallel(form, { kp: next.kp, ki: next.ki ?? 0, kd: next.kd ?? 0 });
+  return { ...next, kc: g?.kc, ti: g?.ti, td: g?.td };
+}
+
+const FORM_LABELS: Record<PidForm, string> = { parallel: 'Parallel', ideal: 'Ideal (ISA)', series: 'Series' };
+
+function FormControls({ idSuffix, params, setParams, terms }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+  terms: 'pi' | 'pd' | 'pid';
+}): JSX.Element {
+  const form = params.form ?? 'parallel';
+  const parallel = { kp: params.kp, ki: params.ki ?? 0, kd: params.kd ?? 0 };
+  const current = form !== 'parallel' && params.kc !== undefined
+    ? { kc: params.kc, ti: params.ti ?? 0, td: params.td ?? 0 }
+    : null;
+  // Editing Kc/Ti/Td writes the parallel equivalents too, so every other panel keeps working
+  const setFormGain = (key: keyof FormGains, v: number) => setParams(p => {
+    const f = p.form ?? 'parallel';
+    if (f === 'parallel') return p;
+    const g = { kc: p.kc ?? p.kp, ti: p.ti ?? 0, td: p.td ?? 0, [key]: v };
+    return { ...p, ...toParallel(f, g), ...g };
+  });
+  const ti = (g: FormGains) => (g.ti > 0 ? `${g.ti.toFixed(3)} s` : '∞ (no I)');
+  const describe = (f: Exclude<PidForm, 'parallel'>) => {
+    const g = fromParallel(f, parallel);
+    return g
+      ? `Kc = ${g.kc.toFixed(3)}, Ti = ${ti(g)}, Td = ${g.td.toFixed(3)} s`
+      : f === 'series' ? 'none (needs Kp² ≥ 4·Ki·Kd)' : 'none (needs Kp > 0)';
+  };
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Controller form</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+          <span>Form</span>
+          <div className="segmented">
+            {(Object.keys(FORM_LABELS) as PidForm[]).map(f => (
+              <button
+                key={f}
+                className={form === f ? 'is-active' : ''}
+                onClick={() => setParams(p => withGains({ ...p, form: f }, {}))}
+              >{FORM_LABELS[f]}</button>
+            ))}
+          </div>
+        </div>
+        {form !== 'parallel' && (
+          <>
+            {!current && (
+              <span style={{ color: 'var(--muted)' }}>
+                (these gains have no {FORM_LABELS[form].toLowerCase()} equivalent, so the sim runs them in parallel form
+                until you move a slider here)
+              </span>
+            )}
+            <ParamSlider id={`kc${idSuffix}`} label="Kc" min={0} max={10} step={0.01} value={current?.kc ?? params.kp}
+              onChange={(v) => setFormGain('kc', v)} />
+            {terms !== 'pd' && (
+              <ParamSlider id={`ti${idSuffix}`} label="Ti (s, 0 = off)" min={0} max={20} step={0.01} value={current?.ti ?? 0}
+                onChange={(v) => setFormGain('ti', v)} />
+            )}
+            {terms !== 'pi' && (
+              <ParamSlider id={`td${idSuffix}`} label="Td (s)" min={0} max={2} step={0.001} value={current?.td ?? 0}
+                onChange={(v) => setFormGain('td', v)} />
+            )}
+          </>
+        )}
+        <span>Parallel: Kp = {parallel.kp.toFixed(3)}, Ki = {parallel.ki.toFixed(3)}, Kd = {parallel.kd.toFixed(3)}</span>
+        <span>Ideal (ISA): {describe('ideal')}</span>
+        <span>Series: {describe('series')}</span>
+        {form === 'series' && current && (params.dFilterTau ?? 0) > 0 && (
+          <span style={{ color: 'var(--muted)' }}>
+            (the D filter smooths the whole (1 + Td·s) factor here, so the I term sees filtered error too and the
+            response differs a little from the same gains in parallel form)
+          </span>
+        )}
+      </div>
+    </details>
+  );
+}
+
+function DerivativeControls({ idSuffix, params, setParams }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+}): JSX.Element {
+  const onMeasurement = params.dOnMeasurement ?? false;
+  return (
+    <div className="stack" style={{ marginTop: 12 }}>
+      <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+        <span>D acts on</span>
+        <div className="segmented">
+          <button
+            className={!onMeasurement ? 'is-active' : ''}
+            onClick={() => setParams(p => ({ ...p, dOnMeasurement: false }))}
+          >Error</button>
+          <button
+            className={onMeasurement ? 'is-active' : ''}
+            onClick={() => setParams(p => ({ ...p, dOnMeasurement: true }))}
+          >Measurement</button>
+        </div>
+      </div>
+      <ParamSlider id={`dFilterTau${idSuffix}`} label="D filter τ (s)" min={0} max={0.5} step={0.005} value={params.dFilterTau ?? 0}
+        onChange={(v) => setParams(p => ({ ...p, dFilterTau: v }))} />
+    </div>
+  );
+}
+
+// Setpoint step from rest, then a load step, so both halves of the 2-DOF story show up
+const WEIGHT_COMPARE_DURATION = 10;
+const WEIGHT_COMPARE_LOAD_AT = 5;
+const WEIGHT_COMPARE_LOAD = 0.3;
+
+function SetpointWeightControls({ idSuffix, params, setParams, worker }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+  worker: Worker;
+}): JSX.Element {
+  const b = params.setpointWeightP ?? 1;
+  const { busy, error, track } = useHeadlessTask();
+  const [result, setResult] = useState<{
+    t: number[];
+    sp: number[];
+    runs: { b: number; y: number[]; overshoot: number; loadError: number }[];
+  } | null>(null);
+  const chartRef = useRef<HTMLDivElement | null>(null);
+  function compare() {
+    track(async () => {
+      const runs = [];
+      let trace: RunTrace | null = null;
+      for (const weight of [1, b]) {
+        trace = await runHeadless(worker, {
+          params: {
+            ...params,
+            setpointWeightP: weight,
+            disturbances: [{ kind: 'step', at: WEIGHT_COMPARE_LOAD_AT, magnitude: -WEIGHT_COMPARE_LOAD }]
+          },
+          duration: WEIGHT_COMPARE_DURATION
+        });
+        const n = trace.t.findIndex(x => x > WEIGHT_COMPARE_LOAD_AT);
+        const stepPart = stepMetrics(trace.t.slice(0, n), trace.y.slice(0, n), trace.u.slice(0, n), trace.sp.slice(0, n), trace.y[0] ?? 0, actuatorLimits(params));
+        const loadPart = disturbanceRecovery(trace.t, trace.y, trace.sp, WEIGHT_COMPARE_LOAD_AT, WEIGHT_COMPARE_DURATION, COMPARE_BAND);
+        runs.push({ b: weight, y: trace.y, overshoot: stepPart.overshoot, loadError: loadPart.maxError });
+      }
+      if (trace) setResult({ t: trace.t, sp: trace.sp, runs });
+    });
+  }
+  useEffect(() => {
+    if (!result || !chartRef.current) return;
+    const chart = new uPlot(
+      {
+        title: `Setpoint step, then a load step at ${WEIGHT_COMPARE_LOAD_AT} s`,
+        width: chartRef.current.clientWidth || 600,
+        height: 220,
+        scales: { x: { time: false } },
+        series: [
+          {},
+          { label: 'Setpoint', stroke: 'black', dash: [4, 4] },
+          { label: `b = ${result.runs[0].b.toFixed(2)}`, stroke: 'rgb(37,99,235)' },
+          { label: `b = ${result.runs[1].b.toFixed(2)}`, stroke: 'green' }
+        ]
+      },
+      [result.t, result.sp, ...result.runs.map(r => r.y)] as AlignedData,
+      chartRef.current
+    );
+    return () => chart.destroy();
+  }, [result]);
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Setpoint weights (2-DOF)</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <ParamSlider id={`setpointWeightP${idSuffix}`} label="b (P weight)" min={0} max={1} step={0.01} value={b}
+          onChange={(v) => setParams(p => ({ ...p, setpointWeightP: v }))} />
+        <ParamSlider id={`setpointWeightD${idSuffix}`} label="c (D weight)" min={0} max={1} step={0.01}
+          value={params.dOnMeasurement ? 0 : params.setpointWeightD ?? 1}
+          onChange={(v) => setParams(p => ({ ...p, setpointWeightD: v, dOnMeasurement: false }))} />
+        <div className="row button-row" style={{ gap: 8 }}>
+          <button disabled={busy} onClick={compare}>{busy ? 'Running…' : `Compare b = 1 vs b = ${b.toFixed(2)}`}</button>
+          {error && <span style={{ color: 'rgb(220,38,38)' }}>{error}</span>}
+        </div>
+        {result && (
+          <>
+            {result.runs.map((r, i) => (
+              <span key={i}>
+                b = {r.b.toFixed(2)}: overshoot {(r.overshoot * 100).toFixed(1)}%,
+                {' '}knocked {r.loadError.toFixed(3)} off target by the load
+              </span>
+            ))}
+            <div ref={chartRef} />
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+function AntiWindupControls({ idSuffix, params, setParams }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+}): JSX.Element {
+  const strategy = params.antiWindup ?? 'conditional';
+  return (
+    <div className="stack" style={{ marginTop: 12 }}>
+      <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+        <label htmlFor={`antiWindup${idSuffix}`} style={{ margin: 0 }}>Anti-windup</label>
+        <select
+          id={`antiWindup${idSuffix}`}
+          value={strategy}
+          onChange={(e) => setParams(p => ({ ...p, antiWindup: e.target.value as SimParams['antiWindup'] }))}
+        >
+          <option value="none">None</option>
+          <option value="conditional">Conditional integration</option>
+          <option value="backcalc">Back-calculation</option>
+          <option value="clamp">Integral clamp</option>
+          <option value="izone">I-zone</option>
+          <option value="reset">Reset on zero crossing</option>
+        </select>
+      </div>
+      {strategy === 'backcalc' && (
+        <ParamSlider id={`kt${idSuffix}`} label="Kt" min={0} max={20} step={0.1} value={params.kt ?? 1}
+          onChange={(v) => setParams(p => ({ ...p, kt: v }))} />
+      )}
+      {strategy === 'clamp' && (
+        <ParamSlider id={`iLimit${idSuffix}`} label="I limit" min={0} max={1} step={0.01} value={params.iLimit ?? 0.5}
+          onChange={(v) => setParams(p => ({ ...p, iLimit: v }))} />
+      )}
+      {strategy === 'izone' && (
+        <ParamSlider id={`iZone${idSuffix}`} label="I-zone" min={0} max={5} step={0.01} value={params.iZone ?? 0.5}
+          onChange={(v) => setParams(p => ({ ...p, iZone: v }))} />
+      )}
+    </div>
+  );
+}
+
+function ProfileControls({ idSuffix, params, setParams }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+}): JSX.Element {
+  const profile = params.profile ?? 'none';
+  const isFlywheel = params.plant === 'flywheel';
+  return (
+    <div className="stack" style={{ marginTop: 12 }}>
+      <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+        <span>Motion profile</span>
+        <div className="segmented">
+          <button
+            className={profile === 'none' ? 'is-active' : ''}
+            onClick={() => setParams(p => ({ ...p, profile: 'none' }))}
+          >Step</button>
+          <button
+            className={profile === 'trapezoid' ? 'is-active' : ''}
+            onClick={() => setParams(p => ({ ...p, profile: 'trapezoid' }))}
+          >Trapezoid</button>
+          <button
+            className={profile === 'scurve' ? 'is-active' : ''}
+            onClick={() => setParams(p => ({ ...p, profile: 'scurve' }))}
+          >S-curve</button>
+        </div>
+        {isFlywheel && <span style={{ color: 'var(--muted)' }}>(position plants only)</span>}
+      </div>
+      {profile !== 'none' && (
+        <>
+          <ParamSlider id={`maxVel${idSuffix}`} label="Max vel" min={0.1} max={10} step={0.1} value={params.maxVel ?? 2}
+            onChange={(v) => setParams(p => ({ ...p, maxVel: v }))} />
+          <ParamSlider id={`maxAccel${idSuffix}`} label="Max accel" min={0.1} max={20} step={0.1} value={params.maxAccel ?? 4}
+            onChange={(v) => setParams(p => ({ ...p, maxAccel: v }))} />
+          {profile === 'scurve' && (
+            <ParamSlider id={`maxJerk${idSuffix}`} label="Max jerk" min={1} max={200} step={1} value={params.maxJerk ?? 20}
+              onChange={(v) => setParams(p => ({ ...p, maxJerk: v }))} />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Long enough for a slow sled to settle into several relay cycles
+const RELAY_DURATION = 30;
+
+function AutoTuneControls({ idSuffix, params, setParams, worker, onExperiment, onDone }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+  worker: Worker;
+  onExperiment: (trace: RunTrace) => void;
+  onDone: () => void;
+}): JSX.Element {
+  const [amplitude, setAmplitude] = useState(0.8);
+  const [hysteresis, setHysteresis] = useState(0.02);
+  const [rule, setRule] = useState<TuningRule>('zn');
+  const { busy, error, track } = useHeadlessTask();
+  // undefined: no experiment to review; null: the relay never settled into an oscillation
+  const [result, setResult] = useState<RelayResult | null | undefined>(undefined);
+  // A Reset replaces the worker the experiment ran on, so its review no longer applies
+  useEffect(() => setResult(undefined), [worker]);
+  function runExperiment() {
+    track(async () => {
+      const trace = await runHeadless(worker, {
+        params: { ...params, controller: 'relay', relayAmplitude: amplitude, relayHysteresis: hysteresis, disturbances: [] },
+        duration: RELAY_DURATION
+      });
+      setResult(analyzeRelay(trace.t, trace.y, amplitude, hysteresis));
+      onExperiment(trace);
+    });
+  }
+  function finish(accept: boolean) {
+    if (accept && gains) {
+      setParams(p => withGains(p, { kp: +gains.kp.toFixed(3), ki: +gains.ki.toFixed(3), kd: +gains.kd.toFixed(3) }));
+    }
+    setResult(undefined);
+    onDone();
+  }
+  const gains = result ? relayGains(result, rule) : null;
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Auto-tune (relay)</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <ParamSlider id={`relayAmp${idSuffix}`} label="Relay ±d" min={0.1} max={1} step={0.01} value={amplitude} onChange={setAmplitude} />
+        <ParamSlider id={`relayHyst${idSuffix}`} label="Hysteresis" min={0} max={0.2} step={0.001} value={hysteresis} onChange={setHysteresis} />
+        <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+          <span>Rule</span>
+          <div className="segmented">
+            {(Object.keys(TUNING_RULES) as TuningRule[]).map(r => (
+              <button key={r} className={rule === r ? 'is-active' : ''} onClick={() => setRule(r)}>{TUNING_RULES[r].label}</button>
+            ))}
+          </div>
+        </div>
+        <div className="row button-row" style={{ gap: 8 }}>
+          <button disabled={busy || result !== undefined} onClick={runExperiment}>{busy ? 'Running…' : 'Auto-tune'}</button>
+          {error && <span style={{ color: 'rgb(220,38,38)' }}>{error}</span>}
+        </div>
+        {result === null && (
+          <div className="row" style={{ gap: 8 }}>
+            <span>No steady oscillation. Try a bigger relay or a setpoint the plant can reach.</span>
+            <button onClick={() => finish(false)}>Back to live</button>
+          </div>
+        )}
+        {result && gains && (
+          <>
+            <span>
+              Ku = {result.ku.toFixed(3)}, Tu = {result.tu.toFixed(3)} s
+              (output amplitude {result.amplitude.toFixed(3)} over {result.cycles} cycles)
+            </span>
+            <span>
+              Suggested: Kp = {gains.kp.toFixed(3)}, Ki = {gains.ki.toFixed(3)}, Kd = {gains.kd.toFixed(3)}
+            </span>
+            <div className="row button-row" style={{ gap: 8 }}>
+              <button onClick={() => finish(true)}>Accept</button>
+              <button onClick={() => finish(false)}>Reject</button>
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+// Each candidate is scored on a step response of this length
+const OPTIMIZE_DURATION = 10;
+
+function OptimizerControls({ idSuffix, params, setParams, worker }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+  worker: Worker;
+}): JSX.Element {
+  const [objective, setObjective] = useState<Objective>('itae');
+  const [limitOvershoot, setLimitOvershoot] = useState(true);
+  const [maxOvershoot, setMaxOvershoot] = useState(5);
+  const [limitSaturation, setLimitSaturation] = useState(false);
+  const [maxSaturation, setMaxSaturation] = useState(20);
+  const [maxEvaluations, setMaxEvaluations] = useState(200);
+  const [tune, setTune] = useState({ kp: true, ki: true, kd: true });
+  const { busy, error, track } = useHeadlessTask();
+  const [progress, setProgress] = useState<OptimizeProgress | null>(null);
+  const stopRef = useRef(false);
+  // Modes in which Kp/Ki/Kd don't reach the plant, so every candidate would score the same
+  const scheduled = (params.scheduleBy ?? 'none') !== 'none' && (params.gainSchedule ?? []).length > 0;
+  const ignoresGains = params.plant === 'flywheel' && (params.controller === 'tbh' || params.controller === 'bang-bang');
+  const unavailable = scheduled
+    ? 'A gain schedule is active, so the schedule sets the gains. Turn it off to optimize Kp, Ki and Kd.'
+    : ignoresGains
+      ? 'The flywheel controller selected above doesn\'t use Kp, Ki or Kd. Switch back to PID to optimize them.'
+      : null;
+  function optimize() {
+    stopRef.current = false;
+    setProgress(null);
+    track(async () => {
+      const result = await optimizeGains(
+        { kp: params.kp, ki: params.ki ?? 0, kd: params.kd ?? 0 },
+        async (gains) => {
+          const trace = await runHeadless(worker, {
+            params: { ...withGains(params, gains), disturbances: [] },
+            duration: OPTIMIZE_DURATION
+          });
+          return stepMetrics(trace.t, trace.y, trace.u, trace.sp, trace.y[0] ?? 0, actuatorLimits(params));
+        },
+        {
+          objective,
+          maxOvershoot: limitOvershoot ? maxOvershoot / 100 : undefined,
+          maxSaturation: limitSaturation ? maxSaturation / 100 : undefined,
+          maxEvaluations,
+          tune
+        },
+        setProgress,
+        () => stopRef.current
+      );
+      setProgress(result);
+    });
+  }
+  const best = progress?.best;
+  const m = progress?.bestMetrics;
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Optimizer</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+          <span>Minimize</span>
+          <div className="segmented">
+            <button className={objective === 'iae' ? 'is-active' : ''} onClick={() => setObjective('iae')}>IAE</button>
+            <button className={objective === 'ise' ? 'is-active' : ''} onClick={() => setObjective('ise')}>ISE</button>
+            <button className={objective === 'itae' ? 'is-active' : ''} onClick={() => setObjective('itae')}>ITAE</button>
+          </div>
+        </div>
+        <label style={{ margin: 0 }}>
+          <input type="checkbox" checked={limitOvershoot} onChange={(e) => setLimitOvershoot(e.target.checked)} />{' '}
+          Limit overshoot
+        </label>
+        {limitOvershoot && (
+          <ParamSlider id={`optOvershoot${idSuffix}`} label="Max overshoot (%)" min={0} max={50} step={1} value={maxOvershoot} onChange={setMaxOvershoot} />
+        )}
+        <label style={{ margin: 0 }}>
+          <input type="checkbox" checked={limitSaturation} onChange={(e) => setLimitSaturation(e.target.checked)} />{' '}
+          Limit time saturated at the actuator limits
+        </label>
+        {limitSaturation && (
+          <ParamSlider id={`optSaturation${idSuffix}`} label="Max saturated (%)" min={0} max={100} step={1} value={maxSaturation} onChange={setMaxSaturation} />
+        )}
+        <ParamSlider id={`optEvals${idSuffix}`} label="Max runs" min={20} max={1000} step={10} value={maxEvaluations} onChange={setMaxEvaluations} />
+        <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+          <span>Search</span>
+          {(['kp', 'ki', 'kd'] as const).map(k => (
+            <label key={k} style={{ margin: 0 }}>
+              <input type="checkbox" checked={tune[k]} onChange={(e) => setTune(t => ({ ...t, [k]: e.target.checked }))} />{' '}
+              {k === 'kp' ? 'Kp' : k === 'ki' ? 'Ki' : 'Kd'}
+            </label>
+          ))}
+        </div>
+        <span style={{ color: 'var(--muted)' }}>
+          Unticked gains stay at their current value (set one to 0 for a PI or PD search). A searched gain can also
+          end up at exactly 0 if the loop does better without that term.
+        </span>
+        {unavailable && <span style={{ color: 'var(--muted)' }}>{unavailable}</span>}
+        <div className="row button-row" style={{ gap: 8 }}>
+          <button disabled={busy || unavailable !== null} onClick={optimize}>{busy ? 'Optimizing…' : 'Optimize'}</button>
+          {error && <span style={{ color: 'rgb(220,38,38)' }}>{error}</span>}
+          <button disabled={!busy} onClick={() => { stopRef.current = true; }}>Stop</button>
+          <button
+            disabled={!best}
+            onClick={() => best && setParams(p => withGains(p, { kp: +best.kp.toFixed(3), ki: +best.ki.toFixed(3), kd: +best.kd.toFixed(3) }))}
+          >Apply best</button>
+        </div>
+        {progress && best && m && (
+          <>
+            <span>
+              {busy ? 'Run' : 'Finished after'} {progress.evaluations} {busy ? `of ${maxEvaluations}` : 'runs'}.
+              Best: Kp = {best.kp.toFixed(3)}, Ki = {best.ki.toFixed(3)}, Kd = {best.kd.toFixed(3)}
+            </span>
+            <span>
+              {objective.toUpperCase()} = {m[objective].toFixed(4)}, overshoot {(m.overshoot * 100).toFixed(1)}%,
+              saturated {(m.saturation * 100).toFixed(1)}% of the time
+            </span>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+function IdentifyControls({ idSuffix, params, setParams, worker, hideTruth = false }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+  worker: Worker;
+  hideTruth?: boolean;
+}): JSX.Element {
+  const [u0, setU0] = useState(0.5);
+  const [duration, setDuration] = useState(10);
+  const [rule, setRule] = useState<ModelRule>('simc');
+  const [lambda, setLambda] = useState(0.5);
+  const { busy, error, track } = useHeadlessTask();
+  const [fit, setFit] = useState<{ model: PlantModel | null; t: number[]; y: number[]; u0: number } | null>(null);
+  const chartRef = useRef<HTMLDivElement | null>(null);
+  const plant = params.plant ?? 'sled';
+  const supported = plant === 'sled' || plant === 'flywheel';
+  function identify() {
+    track(async () => {
+      // Open-loop step from rest; the fit sees the measured output, as it would on a real mechanism
+      const trace = await runHeadless(worker, {
+        params: { ...params, controller: 'open-loop', openLoopU: u0, disturbances: [], profile: 'none' },
+        duration
+      });
+      const model = plant === 'sled' ? fitIpdt(trace.t, trace.ym, u0) : fitFopdt(trace.t, trace.ym, u0);
+      // SIMC suggests a closed-loop time constant equal to the dead time
+      if (model) setLambda(+Math.max(model.deadTime, 0.05).toFixed(2));
+      setFit({ model, t: trace.t, y: trace.ym, u0 });
+    });
+  }
+  // Recorded response with the fitted model on top
+  useEffect(() => {
+    if (!fit || !chartRef.current) return;
+    const series: uPlot.Series[] = [
+      {},
+      { label: 'Measured', stroke: 'rgb(37,99,235)' },
+      { label: 'Model', stroke: 'orange', dash: [6, 4], width: 2 }
+    ];
+    const model = fit.model ? modelResponse(fit.model, fit.t, fit.u0, fit.y[0] ?? 0) : fit.t.map(() => null);
+    const chart = new uPlot(
+      {
+        title: 'Open-loop step response',
+        width: chartRef.current.clientWidth || 600,
+        height: 220,
+        scales: { x: { time: false } },
+        series
+      },
+      [fit.t, fit.y, model] as AlignedData,
+      chartRef.current
+    );
+    return () => chart.destroy();
+  }, [fit]);
+  const truth = params.seed !== undefined && !hideTruth ? plantFromSeed(params.seed) : null;
+  const b = plant === 'sled' ? params.friction : params.drag ?? 0.2;
+  const gains = fit?.model ? modelGains(fit.model, rule, lambda) : null;
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Identify plant</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        {!supported && <span style={{ color: 'var(--muted)' }}>(sled and flywheel only)</span>}
+        <ParamSlider id={`idStep${idSuffix}`} label="Step u" min={0.05} max={1} step={0.01} value={u0} onChange={setU0} />
+        <ParamSlider id={`idDuration${idSuffix}`} label="Record (s)" min={1} max={60} step={1} value={duration} onChange={setDuration} />
+        <div className="row button-row" style={{ gap: 8 }}>
+          <button disabled={busy || !supported} onClick={identify}>{busy ? 'Recording…' : 'Identify plant'}</button>
+          {error && <span style={{ color: 'rgb(220,38,38)' }}>{error}</span>}
+        </div>
+        {fit && !fit.model && <span>Couldn't fit a model. Try a bigger step or a longer record.</span>}
+        {fit && <div className="chart" ref={chartRef} />}
+        {fit?.model && (
+          <>
+            {fit.model.kind === 'fopdt' ? (
+              <span>
+                Fit (first order + dead time): gain {fit.model.gain.toFixed(3)}, τ = {fit.model.tau.toFixed(3)} s,
+                θ = {fit.model.deadTime.toFixed(3)} s
+              </span>
+            ) : (
+              <span>
+                Fit (integrator + dead time): rate gain {fit.model.gain.toFixed(3)}/s, θ = {fit.model.deadTime.toFixed(3)} s
+              </span>
+            )}
+            {truth && (
+              plant === 'sled' ? (
+                <span>
+                  True: K = {truth.K.toFixed(3)}, mass = {truth.mass.toFixed(3)}, friction = {b.toFixed(3)}
+                  {' '}→ K/b = {(truth.K / b).toFixed(3)}/s, m/b = {(truth.mass / b).toFixed(3)} s (plus {(params.actuatorLag ?? DEFAULT_ACTUATOR_LAG).toFixed(2)} s actuator lag)
+                </span>
+              ) : (
+                <span>
+                  True: K = {truth.K.toFixed(3)}, J = {(params.inertiaJ ?? 0.05).toFixed(3)}, drag = {b.toFixed(3)}
+                  {' '}→ K/b = {(truth.K / b).toFixed(3)}, J/b = {((params.inertiaJ ?? 0.05) / b).toFixed(3)} s (plus {(params.actuatorLag ?? DEFAULT_ACTUATOR_LAG).toFixed(2)} s actuator lag)
+                </span>
+              )
+            )}
+            <div className="row" style={{ gap: 12, alignItems: 'center' }}>
+              <span>Rule</span>
+              <div className="segmented">
+                <button className={rule === 'imc' ? 'is-active' : ''} onClick={() => setRule('imc')}>IMC / lambda</button>
+                <button className={rule === 'simc' ? 'is-active' : ''} onClick={() => setRule('simc')}>SIMC</button>
+              </div>
+            </div>
+            <ParamSlider id={`idLambda${idSuffix}`} label="λ (s)" min={0.01} max={5} step={0.01} value={lambda} onChange={setLambda} />
+            {gains && (
+              <div className="row" style={{ gap: 8 }}>
+                <span>Kp = {gains.kp.toFixed(3)}, Ki = {gains.ki.toFixed(3)}, Kd = {gains.kd.toFixed(3)}</span>
+                <button onClick={() => setParams(p => withGains(p, { kp: +gains.kp.toFixed(3), ki: +gains.ki.toFixed(3), kd: +gains.kd.toFixed(3) }))}>
+                  Use these gains
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+// Mystery plants need some friction or drag, or "top speed" would be meaningless
+const CHALLENGE_MIN_DAMPING = 0.2;
+// A mystery plant runs without the motor model, sensor effects, load torque or a tightened
+// actuator, so K/b and the time constant are all a correct measurement can find. A load torque
+// would settle the flywheel at (K·u − τload)/b rather than K·u/b, for example.
+const CHALLENGE_PLAIN_PLANT: Partial<SimParams> = {
+  motorModel: false,
+  gearRatio: undefined,
+  actuatorLag: undefined,
+  actuatorDeadband: undefined,
+  slewRate: 0,
+  uMax: 1,
+  uMin: undefined,
+  noiseSigma: 0,
+  quantization: 0,
+  sensorDelay: 0,
+  loadTorque: 0
+};
+// Tunes are graded on a step from rest of this length, with a 2% settling band
+const GRADE_DURATION = 10;
+const GRADE_BAND = 0.02;
+
+function ChallengeControls({ idSuffix, params, setParams, worker, guessing, onGuessingChange, onNewPlant }: {
+  idSuffix: string;
+  params: SimParams;
+  setParams: React.Dispatch<React.SetStateAction<SimParams>>;
+  worker: Worker;
+  guessing: boolean;
+  onGuessingChange: (guessing: boolean) => void;
+  onNewPlant: (seed: number) => void;
+}): JSX.Element {
+  const [mode, setMode] = useState<'plant' | 'tuning'>('plant');
+  const [gainText, setGainText] = useState('');
+  const [tauText, setTauText] = useState('');
+  // The plant as drawn when the challenge started, which is what the guess is scored against
+  const [mystery, setMystery] = useState<{
+    plant: 'sled' | 'flywheel';
+    K: number;
+    inertia: number;
+    damping: number;
+  } | null>(null);
+  const [revealed, setRevealed] = useState<{
+    plant: 'sled' | 'flywheel';
+    K: number;
+    inertia: number;
+    damping: number;
+    truth: PlantEstimate;
+    estimate: PlantEstimate;
+  } | null>(null);
+  const [goals, setGoals] = useState<TuningGoals>({ maxOvershoot: 0.05, maxSettling: 1.5 });
+  const [graded, setGraded] = useState<{ grade: TuningGrade | null } | null>(null);
+  const { busy, error, track } = useHeadlessTask();
+  const plant = params.plant ?? 'sled';
+  const supported = plant === 'sled' || plant === 'flywheel';
+  const estimate = { gain: Number(gainText), timeConstant: Number(tauText) };
+  const validEstimate = gainText !== '' && tauText !== '' && estimate.gain > 0 && estimate.timeConstant > 0;
+  function newPlant() {
+    if (plant !== 'sled' && plant !== 'flywheel') return;
+    const damping = (seed: number) => {
+      const draw = plantFromSeed(seed);
+      return plant === 'sled' ? draw.friction : draw.drag;
+    };
+    let seed = randomSeed();
+    while (damping(seed) < CHALLENGE_MIN_DAMPING) seed = randomSeed();
+    onNewPlant(seed);
+    setParams(p => ({ ...p, ...CHALLENGE_PLAIN_PLANT }));
+    const draw = plantFromSeed(seed);
+    setMystery(plant === 'sled'
+      ? { plant, K: draw.K, inertia: draw.mass, damping: draw.friction }
+      : { plant, K: draw.K, inertia: draw.inertiaJ, damping: draw.drag });
+    setRevealed(null);
+    setGainText('');
+    setTauText('');
+    onGuessingChange(true);
+  }
+  function reveal() {
+    if (!mystery) return;
+    const { K, inertia, damping } = mystery;
+    setRevealed({ ...mystery, truth: plantTruth(K, inertia, damping), estimate });
+    onGuessingChange(false);
+  }
+  function grade() {
+    track(async () => {
+      // Step from rest to the current setpoint, graded on the worker's own trace
+      const trace = await runHeadless(worker, { params: { ...params, disturbances: [] }, duration: GRADE_DURATION });
+      setGraded({ grade: gradeTuning(analyzeStep(trace, GRADE_BAND, actuatorLimits(params)), goals) });
+    });
+  }
+  const scores = revealed
+    ? [scoreEstimate(revealed.estimate.gain, revealed.truth.gain), scoreEstimate(revealed.estimate.timeConstant, revealed.truth.timeConstant)]
+    : null;
+  const mark = (ok: boolean) => (ok ? '✓' : '✗');
+  return (
+    <details style={{ marginTop: 12 }}>
+      <summary>Challenge</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        <div className="segmented">
+          <button className={mode === 'plant' ? 'is-active' : ''} onClick={() => setMode('plant')}>Guess the plant</button>
+          <button className={mode === 'tuning' ? 'is-active' : ''} onClick={() => setMode('tuning')}>Tuning goals</button>
+        </div>
+        {mode === 'plant' && (
+          <>
+            {!supported && <span style={{ color: 'var(--muted)' }}>(sled and flywheel only)</span>}
+            <span>
+              1. Load a mystery plant (with no motor model, sensor effects or load torque, so the steady speed
+              is all the plant's own gain). The plant choice and seed stay locked until you reveal.
+              2. Run experiments (the sim, the graphs, Identify plant) and estimate it.
+              3. Reveal the true plant and see your score.
+            </span>
+            <div className="row button-row" style={{ gap: 8 }}>
+              <button disabled={!supported} onClick={newPlant}>New mystery plant</button>
+            </div>
+            {guessing && mystery && (
+              <>
+                <div className="row" style={{ gap: 8, alignItems: 'center' }}>
+                  <label htmlFor={`guessGain${idSuffix}`} style={{ margin: 0 }}>Top speed per unit of command (K/b)</label>
+                  <input id={`guessGain${idSuffix}`} type="number" min={0} step={0.01} value={gainText} onChange={(e) => setGainText(e.target.value)} />
+                </div>
+                <div className="row" style={{ gap: 8, alignItems: 'center' }}>
+                  <label htmlFor={`guessTau${idSuffix}`} style={{ margin: 0 }}>
+                    Time constant in seconds ({mystery?.plant === 'flywheel' ? 'J/b' : 'm/b'})
+                  </label>
+                  <input id={`guessTau${idSuffix}`} type="number" min={0} step={0.01} value={tauText} onChange={(e) => setTauText(e.target.value)} />
+                </div>
+                <div className="row button-row" style={{ gap: 8 }}>
+                  <button disabled={!validEstimate} onClick={reveal}>Reveal and score</button>
+                </div>
+              </>
+            )}
+            {revealed && scores && (
+              <>
+                <span>
+                  True plant: K = {revealed.K.toFixed(3)}, {revealed.plant === 'sled' ? 'mass' : 'J'} = {revealed.inertia.toFixed(3)},
+                  {' '}{revealed.plant === 'sled' ? 'friction' : 'drag'} = {revealed.damping.toFixed(3)}
+                </span>
+                <span>
+                  K/b: true {revealed.truth.gain.toFixed(3)}, yours {revealed.estimate.gain.toFixed(3)} → {scores[0]} points
+                </span>
+                <span>
+                  Time constant: true {revealed.truth.timeConstant.toFixed(3)} s, yours {revealed.estimate.timeConstant.toFixed(3)} s
+                  {' '}→ {scores[1]} points
+                </span>
+                <span><b>Score: {Math.round((scores[0] + scores[1]) / 2)} / 100</b> (full marks within a few %, none at 50% off)</span>
+              </>
+            )}
+          </>
+        )}
+        {mode === 'tuning' && (
+          <>
+            <span>
+              Tune the gains above until a step from rest to the setpoint meets both goals, then press Grade.
+            </span>
+            <ParamSlider id={`goalOvershoot${idSuffix}`} label="Max overshoot (%)" min={0} max={50} step={1} value={goals.maxOvershoot * 100}
+              onChange={(v) => setGoals(g => ({ ...g, maxOvershoot: v / 100 }))} />
+            <ParamSlider id={`goalSettling${idSuffix}`} label="Max settling time (s)" min={0.2} max={10} step={0.1} value={goals.maxSettling}
+              onChange={(v) => setGoals(g => ({ ...g, maxSettling: v }))} />
+            <div className="row button-row" style={{ gap: 8 }}>
+              <button disabled={busy} onClick={grade}>{busy ? 'Grading…' : 'Grade my tune'}</button>
+              {error && <span style={{ color: 'rgb(220,38,38)' }}>{error}</span>}
+            </div>
+            {graded && !graded.grade && <span>No step to grade: set a setpoint away from the starting point.</span>}
+            {graded?.grade && (
+              <>
+                <span>
+                  {mark(graded.grade.overshootOk)} Overshoot {(graded.grade.overshoot * 100).toFixed(1)}%
+                  (goal under {(goals.maxOvershoot * 100).toFixed(0)}%)
+                </span>
+                <span>
+                  {mark(graded.grade.settlingOk)} Settling time {graded.grade.settlingTime === null ? 'never settled' : `${graded.grade.settlingTime.toFixed(2)} s`}
+                  {' '}(goal under {goals.maxSettling.toFixed(1)} s, ±{GRADE_BAND * 100}% band)
+                </span>
+                <span><b>{graded.grade.passed ? 'PASS' : 'Not yet'}</b></span>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+// Small-signal model of the current loop, or null for the gravity plants
+function linearLoop(params: SimParams): LinearLoop | null {
+  const plant = params.plant ?? 'sled';
+  if (plant !== 'sled' && plant !== 'flywheel') return null;
+  // The motor's gain and back-EMF damping replace K, so the model below would be a different plant
+  if (params.motorModel) return null;
+  const hidden = plantFromSeed(params.seed ?? 0);
+  const controlPeriod = params.controlPeriod ?? params.dt;
+  return {
+    plant,
+    K: hidden.K,
+    inertia: plant === 'sled' ? hidden.mass : params.inertiaJ ?? 0.05,
+    damping: plant === 'sled' ? params.friction : params.drag ?? 0.2,
+    kp: params.kp,
+    ki: params.ki ?? 0,
+    kd: params.kd ?? 0,
+    dFilterTau: params.dFilterTau ?? 0,
+    tauLag: params.actuatorLag ?? DEFAULT_ACTUATOR_LAG,
+    // Half a sample for the zero-order hold, plus sensor latency and any computation delay
+    delay: controlPeriod / 2 + ((params.sensorDelay ?? 0) + (params.computeDelay ? 1 : 0)) * controlPeriod
+  };
+}
+
+// hideTruth: the plot is drawn from the true plant, so a mystery plant keeps it closed
+function BodePanel({ params, hideTruth = false }: { params: SimParams; hideTruth?: boolean }): JSX.Element {
+  const [open, setOpen] = useState(false);
+  const magRef = useRef<HTMLDivElement | null>(null);
+  const phaseRef = useRef<HTMLDivElement | null>(null);
+  const magPlot = useRef<uPlot | null>(null);
+  const phasePlot = useRef<uPlot | null>(null);
+  const loop = hideTruth ? null : linearLoop(params);
+  const key = loop ? JSON.stringify(loop) : '';
+  const data = useMemo(() => (loop ? bode(loop) : null), [key]);
+  const dataRef = useRef<Bode | null>(data);
+  dataRef.current = data;
+  const supported = loop !== null;
+  useEffect(() => {
+    if (!open || !supported || !magRef.current || !phaseRef.current) return;
+    const width = magRef.current.clientWidth || 600;
+    const scales = { x: { time: false, distr: 3 as const } };
+    const wAxis: uPlot.Axis = { label: 'ω (rad/s)' };
+    magPlot.current = new uPlot(
+      {
+        title: 'Open-loop magnitude |L(jω)| (dB)',
+        width,
+        height: 220,
+        scales,
+        axes: [wAxis, {}],
+        plugins: [marginMarkersPlugin(() => dataRef.current, 'mag')],
+        series: [{}, { label: '|L|', stroke: 'blue' }]
+      },
+      [[1], [0]] as AlignedData,
+      magRef.current
+    );
+    phasePlot.current = new uPlot(
+      {
+        title: 'Open-loop phase ∠L(jω) (deg)',
+        width,
+        height: 220,
+        scales,
+        axes: [wAxis, {}],
+        plugins: [marginMarkersPlugin(() => dataRef.current, 'phase')],
+        series: [{}, { label: '∠L', stroke: 'purple' }]
+      },
+      [[1], [0]] as AlignedData,
+      phaseRef.current
+    );
+    return () => {
+      magPlot.current?.destroy();
+      phasePlot.current?.destroy();
+      magPlot.current = null;
+      phasePlot.current = null;
+    };
+  }, [open, supported]);
+  // Redraw as the sliders move
+  useEffect(() => {
+    if (!data) return;
+    magPlot.current?.setData([data.w, data.magDb] as AlignedData);
+    phasePlot.current?.setData([data.w, data.phaseDeg] as AlignedData);
+  }, [data, open]);
+  const m = data?.margins;
+  return (
+    <details style={{ marginTop: 12 }} onToggle={(e) => setOpen((e.target as HTMLDetailsElement).open)}>
+      <summary>Bode plot</summary>
+      <div className="stack" style={{ marginTop: 8 }}>
+        {hideTruth && <span style={{ color: 'var(--muted)' }}>(hidden until you reveal the mystery plant)</span>}
+        {!supported && !hideTruth && <span style={{ color: 'var(--muted)' }}>(sled and flywheel only, without the DC motor)</span>}
+        {m && (
+          <span>
+            Crossover {m.wc === null ? '—' : `${m.wc.toFixed(2)} rad/s`},
+            phase margin {m.pm === null ? '—' : `${m.pm.toFixed(1)}°`},
+            gain margin {m.gm === null ? '∞' : `${m.gm.toFixed(1)} dB`}
+            {m.w180 !== null && ` (at ${m.w180.toFixed(2)} rad/s)`}
+          </span>
+        )}
+        {supported && (
+          <>
+            <div className="chart" ref={magRef} />
+            <div className="chart" ref={phaseRef} />
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+// A pole this close to the imaginary axis (relative to how fast it oscillates) is barely damped
+const NEAR_AXIS_DAMPING = 0.1;
+
+function poleStatus(p: Complex): 'unstable' | 'marginal' | 'stable' {
+  if (p.re >= 0) return 'unstable';
+  return -p.re < NEAR_AXIS_DAMPING * Math.hypot(p.re, p.im) ? 'marginal' : 'stable';
+}
+
+const POLE_COLORS = { unstable: 'rgb(220,38,38)', marginal: 'orange', stable: 'var(--primary)' };
+
+// hideTruth: the open-loop poles sit at the true plant's −b/m, so a mystery plant keeps it closed
+function RootLocusPanel({ params, hideTruth = false }: { params: SimParams; hideTruth?: boolean }): JSX.Element {
+  // The locus is a few hundred pole sets; only work it out while the panel is open
+  const [open, setOpen] = useState(false);
+  const loop = linearLoop(params);
+  return (
+    <details style={{ marginTop: 12 }} onToggle={(e) => setOpen((e.target as HTMLDetailsElement).open)}>
+      <summary>Root locus</summary>
+      {hideTruth
+        ? <span style={{ color: 'var(--muted)' }}>(hidden until you reveal the mystery plant)</span>
+        : !loop
+          ? <span style={{ color: 'var(--muted)' }}>(sled and flywheel only, without the DC motor)</span>
+          : open && <RootLocusDiagram params={params} loop={loop} />}
+    </details>
+  );
+}
+
+function RootLocusDiagram({ params, loop }: { params: SimParams; loop: LinearLoop }): JSX.Element {
+  const key = JSON.stringify(loop);
+  const view = useMemo(() => {
+    const locus = rootLocus(loop);
+    const poles = closedLoopPoles(loop);
+    const zeros = closedLoopZeros(loop);
+    const boundary = locus.critical !== null ? closedLoopPoles(loop, locus.critical).filter(p => Math.abs(p.re) < 1e-3 * (1 + Math.abs(p.im)) + 1e-6) : [];
+    // Frame the current poles and zeros; the Padé delay pole sits far out at −2/T and is left off-screen
+    const far = loop.delay > 0 ? 1 / loop.delay : Infinity;
+    const shown = [...poles, ...zeros, ...locus.poles[0]].filter(p => Math.hypot(p.re, p.im) < far);
+    const r = Math.max(1, ...shown.map(p => Math.hypot(p.re, p.im))) * 1.3;
+    return { locus, poles, zeros, boundary, r };
+  }, [key]);
+  const { locus, poles, zeros, boundary, r } = view;
+  const W = 360;
+  const H = 260;
+  const xMin = -r;
+  const xMax = r * 0.35;
+  // Same scale on both axes so angles and damping read correctly
+  const yMax = (H / 2) * ((xMax - xMin) / W);
+  const X = (re: number) => ((re - xMin) / (xMax - xMin)) * W;
+  const Y = (im: number) => H / 2 - (im / yMax) * (H / 2);
+  const inView = (p: Complex) => p.re >= xMin && p.re <= xMax && Math.abs(p.im) <= yMax;
+  const worst = poles.reduce<'stable' | 'marginal' | 'unstable'>((acc, p) => {
+    const st = poleStatus(p);
+    return st === 'unstable' || acc === 'unstable' ? 'unstable' : st === 'marginal' || acc === 'marginal' ? 'marginal' : 'stable';
+  }, 'stable');
+  const gainLabel = params.kp > 0 ? 'Kp' : 'gain scale';
+  const gainAt = (g: number) => (params.kp > 0 ? g * params.kp : g);
+  const x0 = X(0);
+  return (
+    <div className="stack" style={{ marginTop: 8 }}>
+      <svg viewBox={`0 0 ${W} ${H}`} style={{ width: '100%', maxWidth: W, border: '1px solid var(--border)', borderRadius: 12 }}>
+        {/* Right half-plane: any pole here grows without bound */}
+        <rect x={x0} y={0} width={W - x0} height={H} fill="rgba(220,38,38,.08)" />
+        <line x1={0} y1={Y(0)} x2={W} y2={Y(0)} stroke="var(--border)" />
+        <line x1={x0} y1={0} x2={x0} y2={H} stroke="rgb(220,38,38)" strokeDasharray="4 4" />
+        <text x={x0 + 4} y={12} fontSize={10} fill="rgb(220,38,38)">unstable</text>
+        <text x={x0 - 4} y={12} fontSize={10} fill="var(--muted)" textAnchor="end">stable</text>
+        {locus.poles.slice(1).flatMap((ps, i) => ps.filter(inView).map((p, j) => (
+          <circle key={`${i}-${j}`} cx={X(p.re)} cy={Y(p.im)} r={1.2} fill="var(--muted)" opacity={0.6} />
+        )))}
+        {/* Open-loop poles (where the locus starts) */}
+        {locus.poles[0].filter(inView).map((p, i) => (
+          <text key={`ol${i}`} x={X(p.re)} y={Y(p.im) + 4} fontSize={11} fill="var(--muted)" textAnchor="middle">×</text>
+        ))}
+        {boundary.filter(inView).map((p, i) => (
+          <circle key={`b${i}`} cx={X(p.re)} cy={Y(p.im)} r={4} fill="none" stroke="rgb(220,38,38)" strokeWidth={2} />
+        ))}
+        {zeros.filter(inView).map((p, i) => (
+          <circle key={`z${i}`} cx={X(p.re)} cy={Y(p.im)} r={5} fill="white" stroke="var(--text)" strokeWidth={1.5} />
+        ))}
+        {poles.filter(inView).map((p, i) => {
+          const x = X(p.re);
+          const y = Y(p.im);
+          const color = POLE_COLORS[poleStatus(p)];
+          return (
+            <g key={`p${i}`} stroke={color} strokeWidth={2.5}>
+              <line x1={x - 5} y1={y - 5} x2={x + 5} y2={y + 5} />
+              <line x1={x - 5} y1={y + 5} x2={x + 5} y2={y - 5} />
+            </g>
+          );
+        })}
+        <text x={4} y={H - 6} fontSize={10} fill="var(--muted)">Re (1/s), window ±{r.toFixed(1)}</text>
+      </svg>
+      <span style={{ color: POLE_COLORS[worst] }}>
+        {worst === 'unstable' && 'Unstable: a closed-loop pole is in the right half-plane, so the wobble grows.'}
+        {worst === 'marginal' && 'Barely stable: a pole is close to the imaginary axis, so the wobble takes a long time to die out.'}
+        {worst === 'stable' && 'Stable: every closed-loop pole is in the left half-plane.'}
+      </span>
+      <span>
+        Bold × = closed-loop poles at the current gains, ○ = zeros, grey dots = the locus as {gainLabel} is scaled
+        (Ki and Kd in the same ratio), faint × = where it starts.
+        {locus.critical !== null
+          ? ` Crosses into the right half-plane at ${gainLabel} ≈ ${gainAt(locus.critical).toFixed(2)} (red circles).`
+          : ` Stays stable up to ${gainLabel} = ${gainAt(locus.gains[locus.gains.length - 1]).toFixed(0)}.`}
+      </span>
+    </div>
+  );
+}
+
+// 0 dB / −180° reference lines plus the crossover frequencies and the margins between them
+function marginMarkersPlugin(getData: () => Bode | null, which: 'mag' | 'phase'): uPlot.Plugin {
+  return {
+    hooks: {
+      draw: [
+        (u: uPlot) => {
+          const data = getData();
+          if (!data) return;
+          const { ctx } = u;
+          const { left, top, width, height } = u.bbox;
+          const px = uPlot.pxRatio;
+          const { wc, pm, w180, gm } = data.margins;
+          ctx.save();
+          ctx.beginPath();
+          ctx.rect(left, top, width, height);
+          ctx.clip();
+          ctx.lineWidth = px;
+          ctx.font = `${11 * px}px sans-serif`;
+          const refLevel = which === 'mag' ? 0 : -180;
+          const yRef = u.valToPos(refLevel, 'y', true);
+          ctx.strokeStyle = 'rgba(100,116,139,.9)';
+          ctx.setLineDash([4 * px, 4 * px]);
+          ctx.beginPath();
+          ctx.moveTo(left, yRef);
+          ctx.lineTo(left + width, yRef);
+          ctx.stroke();
+          const vline = (w: number, color: string) => {
+            const x = u.valToPos(w, 'x', true);
+            ctx.strokeStyle = color;
+            ctx.beginPath();
+            ctx.moveTo(x, top);
+            ctx.lineTo(x, top + height);
+            ctx.stroke();
+            return x;
+          };
+          ctx.setLineDash([2 * px, 3 * px]);
+          if (wc !== null) vline(wc, 'rgba(16,185,129,.9)');
+          if (w180 !== null) vline(w180, 'rgba(220,38,38,.8)');
+          // Solid arrows show the margin itself on the chart where it is measured
+          ctx.setLineDash([]);
+          ctx.lineWidth = 2 * px;
+          if (which === 'phase' && wc !== null && pm !== null) {
+            const x = u.valToPos(wc, 'x', true);
+            ctx.strokeStyle = 'rgba(16,185,129,.9)';
+            ctx.fillStyle = 'rgba(16,185,129,.9)';
+            ctx.beginPath();
+            ctx.moveTo(x, yRef);
+            ctx.lineTo(x, u.valToPos(pm - 180, 'y', true));
+            ctx.stroke();
+            ctx.fillText(`PM ${pm.toFixed(1)}°`, x + 4 * px, top + 12 * px);
+          }
+          if (which === 'mag' && w180 !== null && gm !== null) {
+            const x = u.valToPos(w180, 'x', true);
+            ctx.strokeStyle = 'rgba(220,38,38,.8)';
+            ctx.fillStyle = 'rgba(220,38,38,.8)';
+            ctx.beginPath();
+            ctx.moveTo(x, yRef);
+            ctx.lineTo(x, u.valToPos(-gm, 'y', true));
+            ctx.stroke();
+            ctx.fillText(`GM ${gm.toFixed(1)} dB`, x + 4 * px, top + 12 * px);
+          }
+          ctx.restore();
+        }
+      ]
+    }
+  };
+}
+
+function ParamSlider({ id, label, min, max, step, value, onChange }: {
+  id: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+  onChange: (v: number) => void;
+}): JSX.Element {
+  return (
+    <div className="row" style={{ width: '100%' }}>
+      <label htmlFor={id} style={{ margin: 0, minWidth: 28, textAlign: 'right' }}>{label}</label>
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        style={{ flex: 1 }}
+      />
+      <input
+        type="number"
+        value={value}
+        step={step}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+    </div>
+  );
+}
+
+// The controller's command uCmd before the actuator: constant between updates, so drawn as stairs
+const HELD_COMMAND_SERIES: uPlot.Series = {
+  label: 'Commanded uCmd',
+  stroke: 'rgba(0,0,0,.55)',
+  width: 1,
+  paths: uPlot.paths.stepped?.({ align: 1 })
+};
+
+// Third chart for the motor model: current and battery voltage on their own axes
+function motorChart(el: HTMLDivElement, width: number, getEvents: () => SimEvent[]): uPlot {
+  return new uPlot(
+    {
+      width,
+      height: 200,
+      title: 'Motor current (A) and battery voltage (V)',
+      scales: { x: { time: false }, A: {}, V: {} },
+      plugins: [eventMarkersPlugin(getEvents)],
+      series: [
+        {},
+        { label: 'Current (A)', stroke: 'crimson', scale: 'A' },
+        { label: 'Battery (V)', stroke: 'teal', scale: 'V' }
+      ],
+      axes: [
+        {},
+        { scale: 'A' },
+        { scale: 'V', side: 1, grid: { show: false } }
+      ]
+    },
+    ([[0], [0], [0]] as unknown) as AlignedData,
+    el
+  );
+}
+
+function cascadeChart(el: HTMLDivElement, width: number, getEvents: () => SimEvent[]): uPlot {
+  return new uPlot(
+    {
+      width,
+      height: 200,
+      title: 'Inner loop: velocity reference vs. velocity',
+      scales: { x: { time: false } },
+      plugins: [eventMarkersPlugin(getEvents)],
+      series: [
+        {},
+        { label: 'Velocity ref (outer loop output)', stroke: 'orange', dash: [6, 4] },
+        { label: 'Velocity', stroke: 'blue' }
+      ]
+    },
+    ([[0], [0], [0]] as unknown) as AlignedData,
+    el
+  );
+}
+
+function gainsChart(el: HTMLDivElement, width: number, getEvents: () => SimEvent[]): uPlot {
+  return new uPlot(
+    {
+      width,
+      height: 200,
+      title: 'Active gains (from the schedule)',
+      scales: { x: { time: false } },
+      plugins: [eventMarkersPlugin(getEvents)],
+      series: [
+        {},
+        { label: 'Kp', stroke: 'blue' },
+        { label: 'Ki', stroke: 'purple' },
+        { label: 'Kd', stroke: 'red' }
+      ]
+    },
+    ([[0], [0], [0], [0]] as unknown) as AlignedData,
+    el
+  );
+}
+
+// Draws a dashed vertical line and label on the chart for each event in view
+function eventMarkersPlugin(getEvents: () => SimEvent[]): uPlot.Plugin {
+  return {
+    hooks: {
+      draw: [
+        (u: uPlot) => {
+          const { ctx } = u;
+          const { left, top, width, height } = u.bbox;
+          ctx.save();
+          ctx.strokeStyle = 'rgba(220,38,38,.8)';
+          ctx.fillStyle = 'rgba(220,38,38,.9)';
+          ctx.lineWidth = uPlot.pxRatio;
+          ctx.setLineDash([4 * uPlot.pxRatio, 4 * uPlot.pxRatio]);
+          ctx.font = `${11 * uPlot.pxRatio}px sans-serif`;
+          for (const ev of getEvents()) {
+            const x = u.valToPos(ev.t, 'x', true);
+            if (x < left || x > left + width) continue;
+            ctx.beginPath();
+            ctx.moveTo(x, top);
+            ctx.lineTo(x, top + height);
+            ctx.stroke();
+            ctx.fillText(ev.label, x + 4 * uPlot.pxRatio, top + 12 * uPlot.pxRatio);
+          }
+          ctx.restore();
+        }
+      ]
+    }
+  };
+}
+
+// Marks the latest step on the y chart: settling band, 10/90% rise, peak and settling time
+function stepMarkersPlugin(getData: () => SimDataMessage | null, getBand: () => number): uPlot.Plugin {
+  return {
+    hooks: {
+      draw: [
+        (u: uPlot) => {
+          const data = getData();
+          const a = data ? analyzeStep(data, getBand()) : null;
+          if (!a) return;
+          const { ctx } = u;
+          const { left, top, width, height } = u.bbox;
+          const px = uPlot.pxRatio;
+          const xAt = (t: number) => u.valToPos(t, 'x', true);
+          const yAt = (v: number) => u.valToPos(v, 'y', true);
+          ctx.save();
+          ctx.beginPath();
+          ctx.rect(left, top, width, height);
+          ctx.clip();
+          // Settling band from the step onwards
+          const tol = getBand() * Math.abs(a.target - a.y0);
+          const x0 = Math.max(xAt(a.tStep), left);
+          ctx.fillStyle = 'rgba(16,185,129,.12)';
+          ctx.fillRect(x0, yAt(a.target + tol), left + width - x0, yAt(a.target - tol) - yAt(a.target + tol));
+          ctx.font = `${11 * px}px sans-serif`;
+          ctx.lineWidth = px;
+          ctx.setLineDash([2 * px, 3 * px]);
+          ctx.strokeStyle = 'rgba(100,116,139,.9)';
+          ctx.fillStyle = 'rgba(100,116,139,.9)';
+          const vline = (t: number, label: string) => {
+            const x = xAt(t);
+            ctx.beginPath();
+            ctx.moveTo(x, top);
+            ctx.lineTo(x, top + height);
+            ctx.stroke();
+            ctx.fillText(label, x + 3 * px, top + height - 6 * px);
+          };
+          if (a.tRise10 !== null) vline(a.tRise10, '10%');
+          if (a.tRise90 !== null) vline(a.tRise90, '90%');
+          if (a.settlingTime !== null) vline(a.tStep + a.settlingTime, 'Settled');
+          if (a.overshoot > 0) {
+            const x = xAt(a.tPeak);
+            const y = yAt(a.yPeak);
+            ctx.beginPath();
+            ctx.arc(x, y, 4 * px, 0, 2 * Math.PI);
+            ctx.fill();
+            ctx.fillText(`+${(a.overshoot * 100).toFixed(1)}%`, x + 6 * px, y - 6 * px);
+          }
+          ctx.restore();
+        }
+      ]
+    }
+  };
+}
+
+// Rise time, overshoot, settling, steady-state error, IAE and saturation for the latest step
+function MetricsPanel({ idSuffix, data, bandRef, limits }: {
+  idSuffix: string;
+  data: SimDataMessage | null;
+  bandRef: React.MutableRefObject<number>;
+  limits: [number, number];
+}): JSX.Element {
+  const [band, setBand] = useState(bandRef.current * 100);
+  // Keep showing the last step after it scrolls out of the buffer
+  const last = useRef<StepAnalysis | null>(null);
+  const current = data ? analyzeStep(data, band / 100, limits) : null;
+  if (current) last.current = current;
+  const a = current ?? last.current;
+  const fmt = (v: number | null, unit: string, digits = 2) => (v === null ? '—' : `${v.toFixed(digits)}${unit}`);
+  return (
+    <div style={{ marginTop: 12 }}>
+      <div className="row" style={{ gap: 12 }}>
+        <b>Step response</b>
+        {a && !current && <span style={{ color: 'var(--muted)' }}>(last step, now off the chart)</span>}
+        {!a && <span style={{ color: 'var(--muted)' }}>Change the setpoint to measure a step.</span>}
+      </div>
+      <ParamSlider id={`settleBand${idSuffix}`} label="Settling band (%)" min={0.5} max={10} step={0.5} value={band}
+        onChange={(v) => { setBand(v); bandRef.current = v / 100; }} />
+      {a && (
+        <div className="metrics">
+          <div className="metric"><div className="label">Rise time (10–90%)</div><div className="value">{fmt(a.riseTime, ' s')}</div></div>
+          <div className="metric"><div className="label">Overshoot</div><div className="value">{fmt(a.overshoot * 100, '%', 1)}</div></div>
+          <div className="metric"><div className="label">Settling time (±{band}%)</div><div className="value">{fmt(a.settlingTime, ' s')}</div></div>
+          <div className="metric"><div className="label">Steady-state error</div><div className="value">{fmt(a.sse, '', 3)}</div></div>
+          <div className="metric"><div className="label">IAE</div><div className="value">{fmt(a.iae, '', 3)}</div></div>
+          <div className="metric"><div className="label">Time at limit</div><div className="value">{fmt(a.saturation * 100, '%', 1)}</div></div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function findStartIndex(tArr: number[], start: number): number {
   // Binary search for first index where t >= start
   let lo = 0;
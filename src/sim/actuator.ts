@@ -0,0 +1,19 @@
+// Actuator and drive defaults shared by the worker's plant models, the linearized loop and the
+// controls that edit them
+
+// First-order lag between the command and the actuator output (seconds)
+export const DEFAULT_ACTUATOR_LAG = 0.08;
+
+// Output limits; symmetric unless a separate lower limit is set
+export function actuatorLimits(p: { uMax?: number; uMin?: number }): [number, number] {
+  const hi = Math.max(p.uMax ?? 1, 0);
+  return [Math.min(p.uMin ?? -hi, 0), hi];
+}
+
+// Reduction between the DC motor and the plant. The arm and elevator have to hold their load
+// against gravity, which the bare motor can't do within its current limit.
+export function defaultGearRatio(plant: string | undefined): number {
+  if (plant === 'arm') return 20;
+  if (plant === 'elevator') return 40;
+  return 1;
+}
@@ -0,0 +1,61 @@
+// Relay auto-tuning (Åström–Hägglund): replace the controller with an on/off relay, let the
+// loop settle into a limit cycle, and read the ultimate gain and period off the oscillation.
+
+export type RelayResult = {
+  ku: number;        // ultimate gain
+  tu: number;        // ultimate period (seconds)
+  amplitude: number; // half peak-to-peak of the output oscillation
+  cycles: number;    // full cycles the estimate is averaged over
+};
+
+// Returns null when the output never settled into a clear oscillation
+export function analyzeRelay(t: number[], y: number[], relayAmplitude: number, hysteresis: number): RelayResult | null {
+  // Skip the initial approach to the setpoint; only the settled limit cycle is meaningful
+  const i0 = Math.floor(t.length / 3);
+  if (t.length - i0 < 10) return null;
+  let mean = 0;
+  for (let i = i0; i < y.length; i++) mean += y[i];
+  mean /= y.length - i0;
+  // Upward crossings of the mean mark one period each
+  const crossings: number[] = [];
+  for (let i = i0 + 1; i < y.length; i++) {
+    if (y[i - 1] < mean && y[i] >= mean) {
+      // Interpolate the crossing time between samples
+      const frac = (mean - y[i - 1]) / (y[i] - y[i - 1]);
+      crossings.push(t[i - 1] + frac * (t[i] - t[i - 1]));
+    }
+  }
+  if (crossings.length < 3) return null;
+  const cycles = crossings.length - 1;
+  const tu = (crossings[crossings.length - 1] - crossings[0]) / cycles;
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = i0; i < y.length; i++) {
+    if (t[i] < crossings[0] || t[i] > crossings[crossings.length - 1]) continue;
+    min = Math.min(min, y[i]);
+    max = Math.max(max, y[i]);
+  }
+  const amplitude = (max - min) / 2;
+  if (!(amplitude > hysteresis)) return null;
+  // Describing function of a relay with hysteresis: N(a) = 4d / (π a), crossing -1/Ku
+  const ku = (4 * relayAmplitude) / (Math.PI * Math.sqrt(amplitude * amplitude - hysteresis * hysteresis));
+  return { ku, tu, amplitude, cycles };
+}
+
+export type TuningRule = 'zn' | 'tyreus-luyben' | 'no-overshoot';
+
+// PID rules in terms of Ku and Tu: Kp = kp*Ku, Ti = ti*Tu, Td = td*Tu
+export const TUNING_RULES: Record<TuningRule, { label: string; kp: number; ti: number; td: number }> = {
+  zn: { label: 'Ziegler–Nichols', kp: 0.6, ti: 0.5, td: 0.125 },
+  'tyreus-luyben': { label: 'Tyreus–Luyben', kp: 1 / 2.2, ti: 2.2, td: 1 / 6.3 },
+  'no-overshoot': { label: 'No overshoot', kp: 0.2, ti: 0.5, td: 1 / 3 }
+};
+
+// Convert a rule to the parallel gains the sim uses: Ki = Kp/Ti, Kd = Kp*Td
+export function relayGains(result: RelayResult, rule: TuningRule): { kp: number; ki: number; kd: number } {
+  const r = TUNING_RULES[rule];
+  const kp = r.kp * result.ku;
+  const ti = r.ti * result.tu;
+  const td = r.td * result.tu;
+  return { kp, ki: kp / ti, kd: kp * td };
+}
@@ -0,0 +1,47 @@
+// Workshop challenges: score a student's plant estimate against the hidden plant, and grade a
+// tune against step-response goals
+import type { StepAnalysis } from './metrics';
+
+// What experiments on the sled or flywheel can actually pin down. K, the mass (or inertia) and
+// friction (or drag) only ever show up in the response as these two ratios.
+export type PlantEstimate = {
+  gain: number;         // K/b: steady speed per unit of command
+  timeConstant: number; // m/b or J/b: seconds to cover 63% of a speed change
+};
+
+export function plantTruth(K: number, inertia: number, damping: number): PlantEstimate {
+  return { gain: K / damping, timeConstant: inertia / damping };
+}
+
+// 100 points for a perfect estimate, falling to 0 at 50% off
+export function scoreEstimate(estimate: number, truth: number): number {
+  const error = Math.abs(estimate - truth) / Math.max(Math.abs(truth), 1e-9);
+  return Math.round(100 * Math.max(0, 1 - error / 0.5));
+}
+
+export type TuningGoals = {
+  maxOvershoot: number; // fraction of the step size
+  maxSettling: number;  // seconds
+};
+
+export type TuningGrade = {
+  overshoot: number;
+  settlingTime: number | null;
+  overshootOk: boolean;
+  settlingOk: boolean;
+  passed: boolean;
+};
+
+// Null if the trace has no step to grade
+export function gradeTuning(a: StepAnalysis | null, goals: TuningGoals): TuningGrade | null {
+  if (!a) return null;
+  const overshootOk = a.overshoot <= goals.maxOvershoot;
+  const settlingOk = a.settlingTime !== null && a.settlingTime <= goals.maxSettling;
+  return {
+    overshoot: a.overshoot,
+    settlingTime: a.settlingTime,
+    overshootOk,
+    settlingOk,
+    passed: overshootOk && settlingOk
+  };
+}
@@ -0,0 +1,32 @@
+// PID controller forms and the conversions between their gains
+//   parallel:              u = Kp·e + Ki·∫e dt + Kd·de/dt
+//   ideal (ISA):           u = Kc·(e + (1/Ti)·∫e dt + Td·de/dt)
+//   series (interacting):  u = Kc·(1 + 1/(Ti·s))·(1 + Td·s)·e
+
+export type PidForm = 'parallel' | 'ideal' | 'series';
+export type ParallelGains = { kp: number; ki: number; kd: number };
+// Ti = 0 stands for no integral action (an infinitely long reset time)
+export type FormGains = { kc: number; ti: number; td: number };
+
+export function toParallel(form: Exclude<PidForm, 'parallel'>, g: FormGains): ParallelGains {
+  const ki = g.ti > 0 ? g.kc / g.ti : 0;
+  const kd = g.kc * g.td;
+  // Multiplying out the series form adds Kc·Td/Ti to the proportional gain
+  const kp = form === 'series' && g.ti > 0 ? g.kc * (1 + g.td / g.ti) : g.kc;
+  return { kp, ki, kd };
+}
+
+// Returns null when the gains have no equivalent in that form: the ideal form needs Kp > 0 to
+// carry any I or D, and the series form can only place real zeros (Kp² ≥ 4·Ki·Kd)
+export function fromParallel(form: Exclude<PidForm, 'parallel'>, g: ParallelGains): FormGains | null {
+  if (g.ki === 0 && g.kd === 0) return { kc: g.kp, ti: 0, td: 0 };
+  let kc = g.kp;
+  if (form === 'series') {
+    const disc = g.kp * g.kp - 4 * g.ki * g.kd;
+    if (disc < 0) return null;
+    // Of the two roots, the larger Kc gives the usual Ti ≥ Td arrangement
+    kc = (g.kp + Math.sqrt(disc)) / 2;
+  }
+  if (kc <= 0) return null;
+  return { kc, ti: g.ki > 0 ? kc / g.ki : 0, td: g.kd / kc };
+}
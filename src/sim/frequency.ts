@@ -0,0 +1,94 @@
+// Frequency response of the linearized loop: PID × actuator lag × plant × delay
+
+export type LinearLoop = {
+  plant: 'sled' | 'flywheel';
+  K: number;          // actuator gain
+  inertia: number;    // sled mass or flywheel J
+  damping: number;    // sled friction or flywheel drag
+  kp: number;
+  ki: number;
+  kd: number;
+  dFilterTau: number; // low-pass on the D term
+  tauLag: number;     // actuator lag
+  delay: number;      // sampling + sensor latency (seconds)
+};
+
+export type Margins = {
+  wc: number | null;   // gain crossover (rad/s), where |L| = 1
+  pm: number | null;   // phase margin (degrees)
+  w180: number | null; // phase crossover (rad/s), where ∠L = −180°
+  gm: number | null;   // gain margin (dB)
+};
+
+export type Bode = { w: number[]; magDb: number[]; phaseDeg: number[]; margins: Margins };
+
+const DEG = 180 / Math.PI;
+
+// Magnitude and unwrapped phase of L(jw). Each factor's phase stays inside (−180°, 180°],
+// so summing them (rather than taking arg of the product) gives a continuous curve.
+export function loopAt(loop: LinearLoop, w: number): { mag: number; phase: number } {
+  // PID with filtered derivative: kp + ki/(jw) + kd·jw/(τf·jw + 1)
+  const dDen = { re: 1, im: loop.dFilterTau * w };
+  const dDen2 = dDen.re * dDen.re + dDen.im * dDen.im;
+  // kd·jw / (1 + jτw) = kd·w·(τw + j) / (1 + τ²w²)
+  const dRe = (loop.kd * w * dDen.im) / dDen2;
+  const dIm = (loop.kd * w) / dDen2;
+  const cRe = loop.kp + dRe;
+  const cIm = dIm - (w > 0 ? loop.ki / w : 0);
+  const cMag = Math.hypot(cRe, cIm);
+  const cPhase = Math.atan2(cIm, cRe);
+  // Actuator lag 1/(τ·jw + 1)
+  const aMag = 1 / Math.hypot(1, loop.tauLag * w);
+  const aPhase = -Math.atan(loop.tauLag * w);
+  // Sled: K / (jw·(m·jw + b)); flywheel: K / (J·jw + b)
+  const pole = Math.hypot(loop.damping, loop.inertia * w);
+  const poleAngle = Math.atan2(loop.inertia * w, loop.damping);
+  const pMag = loop.plant === 'sled' ? loop.K / (w * pole) : loop.K / pole;
+  const pPhase = loop.plant === 'sled' ? -Math.PI / 2 - poleAngle : -poleAngle;
+  return {
+    mag: cMag * aMag * pMag,
+    phase: (cPhase + aPhase + pPhase - w * loop.delay) * DEG
+  };
+}
+
+// Log-spaced sweep with the first gain and phase crossovers refined by bisection
+export function bode(loop: LinearLoop, wMin = 0.01, wMax = 1000, n = 400): Bode {
+  const w: number[] = [];
+  const magDb: number[] = [];
+  const phaseDeg: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const wi = wMin * Math.pow(wMax / wMin, i / (n - 1));
+    const r = loopAt(loop, wi);
+    w.push(wi);
+    magDb.push(20 * Math.log10(r.mag));
+    phaseDeg.push(r.phase);
+  }
+  const crossing = (f: (wi: number) => number) => {
+    for (let i = 1; i < n; i++) {
+      if (f(w[i - 1]) >= 0 && f(w[i]) < 0) {
+        let lo = w[i - 1];
+        let hi = w[i];
+        for (let k = 0; k < 40; k++) {
+          const mid = Math.sqrt(lo * hi);
+          if (f(mid) >= 0) lo = mid;
+          else hi = mid;
+        }
+        return Math.sqrt(lo * hi);
+      }
+    }
+    return null;
+  };
+  const wc = crossing(wi => loopAt(loop, wi).mag - 1);
+  const w180 = crossing(wi => loopAt(loop, wi).phase + 180);
+  return {
+    w,
+    magDb,
+    phaseDeg,
+    margins: {
+      wc,
+      pm: wc === null ? null : 180 + loopAt(loop, wc).phase,
+      w180,
+      gm: w180 === null ? null : -20 * Math.log10(loopAt(loop, w180).mag)
+    }
+  };
+}
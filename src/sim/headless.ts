@@ -0,0 +1,77 @@
+// Promise wrapper around the worker's headless 'run' message
+
+export type RunTrace = {
+  t: number[];
+  y: number[];
+  u: number[];
+  sp: number[];
+  ref: number[];
+  ff: number[];
+  fb: number[];
+  dTerm: number[];
+  ym: number[];
+  events: { t: number; label: string }[];
+  current: number[];
+  voltage: number[];
+  vRef: number[];
+  vel: number[];
+  cmd: number[];
+  kpActive: number[];
+  kiActive: number[];
+  kdActive: number[];
+};
+
+export type RunRequest<P> = {
+  params: P;
+  duration: number; // simulated seconds
+  initial?: { y?: number; v?: number; omega?: number; u?: number };
+  schedule?: { t: number; setpoint: number }[];
+};
+
+// Rejects a run whose worker was terminated (Reset) before it answered
+export class RunCancelledError extends Error {
+  constructor() {
+    super('Headless run cancelled: the worker was replaced');
+    this.name = 'RunCancelledError';
+  }
+}
+
+let nextRunId = 1;
+// Reject functions of the runs still waiting on each worker
+const pending = new WeakMap<Worker, Set<(err: Error) => void>>();
+
+// Runs on the card's own worker (so it sees the same hidden plant) without touching its live loop
+export function runHeadless<P>(worker: Worker, request: RunRequest<P>): Promise<RunTrace> {
+  const id = nextRunId++;
+  return new Promise((resolve, reject) => {
+    const waiting = pending.get(worker) ?? new Set<(err: Error) => void>();
+    pending.set(worker, waiting);
+    function cleanup() {
+      worker.removeEventListener('message', onMessage);
+      worker.removeEventListener('error', onError);
+      waiting.delete(fail);
+    }
+    function fail(err: Error) {
+      cleanup();
+      reject(err);
+    }
+    function onMessage(ev: MessageEvent) {
+      const msg = ev.data as { type: string; id?: number };
+      if (msg.type !== 'runResult' || msg.id !== id) return;
+      cleanup();
+      resolve(ev.data as RunTrace);
+    }
+    function onError(ev: ErrorEvent) {
+      fail(new Error(`Headless run failed: ${ev.message}`));
+    }
+    waiting.add(fail);
+    worker.addEventListener('message', onMessage);
+    worker.addEventListener('error', onError);
+    worker.postMessage({ type: 'run', id, ...request });
+  });
+}
+
+// Call before terminating a worker: a terminated worker never answers, so its runs would hang
+export function cancelRuns(worker: Worker) {
+  for (const fail of [...(pending.get(worker) ?? [])]) fail(new RunCancelledError());
+}
@@ -0,0 +1,93 @@
+// Step-response identification: fit a simple model to an open-loop step, then tune from the model
+
+// Self-regulating (flywheel): G(s) = gain · e^(-θs) / (τs + 1)
+export type FopdtModel = { kind: 'fopdt'; gain: number; tau: number; deadTime: number };
+// Integrating (sled): G(s) = gain · e^(-θs) / s, gain is output rate per unit command
+export type IpdtModel = { kind: 'ipdt'; gain: number; deadTime: number };
+export type PlantModel = FopdtModel | IpdtModel;
+
+// Two-point method (Smith): read the 28.3% and 63.2% rise times off the response.
+// t is time since the step of size u0 was applied.
+export function fitFopdt(t: number[], y: number[], u0: number): FopdtModel | null {
+  if (t.length < 10 || u0 === 0) return null;
+  const y0 = y[0];
+  // Average the last tenth so sensor noise doesn't throw off the final value
+  const tail = y.slice(Math.floor(y.length * 0.9));
+  const yEnd = tail.reduce((a, b) => a + b, 0) / tail.length;
+  const delta = yEnd - y0;
+  if (Math.abs(delta) < 1e-6) return null;
+  const crossing = (frac: number) => {
+    const target = y0 + frac * delta;
+    const i = y.findIndex(v => (delta > 0 ? v >= target : v <= target));
+    return i < 0 ? null : t[i];
+  };
+  const t28 = crossing(0.283);
+  const t63 = crossing(0.632);
+  if (t28 === null || t63 === null) return null;
+  const tau = Math.max(1.5 * (t63 - t28), 1e-3);
+  return { kind: 'fopdt', gain: delta / u0, tau, deadTime: Math.max(t63 - tau, 0) };
+}
+
+// Once the velocity has settled the output is a straight line y = slope·(t − θ): fit it
+// by least squares over the second half of the record.
+export function fitIpdt(t: number[], y: number[], u0: number): IpdtModel | null {
+  if (t.length < 10 || u0 === 0) return null;
+  const i0 = Math.floor(t.length / 2);
+  const n = t.length - i0;
+  let st = 0, sy = 0, stt = 0, sty = 0;
+  for (let i = i0; i < t.length; i++) {
+    st += t[i];
+    sy += y[i];
+    stt += t[i] * t[i];
+    sty += t[i] * y[i];
+  }
+  const denom = n * stt - st * st;
+  if (Math.abs(denom) < 1e-12) return null;
+  const slope = (n * sty - st * sy) / denom;
+  if (Math.abs(slope) < 1e-9) return null;
+  const intercept = (sy - slope * st) / n;
+  return { kind: 'ipdt', gain: slope / u0, deadTime: Math.max((y[0] - intercept) / slope, 0) };
+}
+
+// Model output for a step of u0 at t = 0 starting from y0
+export function modelResponse(model: PlantModel, t: number[], u0: number, y0: number): number[] {
+  return t.map(ti => {
+    const s = Math.max(ti - model.deadTime, 0);
+    return model.kind === 'fopdt'
+      ? y0 + model.gain * u0 * (1 - Math.exp(-s / model.tau))
+      : y0 + model.gain * u0 * s;
+  });
+}
+
+export type ModelRule = 'imc' | 'simc';
+
+// Parallel gains from the model; lambda is the desired closed-loop time constant (τc in SIMC).
+// IMC uses the PID form for FOPDT, SIMC and the integrating cases give PI.
+export function modelGains(model: PlantModel, rule: ModelRule, lambda: number): { kp: number; ki: number; kd: number } {
+  const theta = model.deadTime;
+  const lam = Math.max(lambda, 1e-3);
+  let kc: number;
+  let ti: number;
+  let td = 0;
+  if (model.kind === 'fopdt') {
+    const { gain, tau } = model;
+    if (rule === 'imc') {
+      kc = (tau + theta / 2) / (gain * (lam + theta / 2));
+      ti = tau + theta / 2;
+      td = (tau * theta) / (2 * tau + theta);
+    } else {
+      kc = tau / (gain * (lam + theta));
+      ti = Math.min(tau, 4 * (lam + theta));
+    }
+  } else {
+    const { gain } = model;
+    if (rule === 'imc') {
+      kc = (2 * lam + theta) / (gain * (lam + theta) * (lam + theta));
+      ti = 2 * lam + theta;
+    } else {
+      kc = 1 / (gain * (lam + theta));
+      ti = 4 * (lam + theta);
+    }
+  }
+  return { kp: kc, ki: kc / Math.max(ti, 1e-6), kd: kc * td };
+}
@@ -0,0 +1,153 @@
+// Step-response performance measures computed from a sim trace
+
+export type StepMetrics = {
+  iae: number;        // ∫|e| dt
+  ise: number;        // ∫e² dt
+  itae: number;       // ∫t·|e| dt
+  overshoot: number;  // peak past the setpoint, as a fraction of the step size
+  saturation: number; // fraction of the time the actuator sat at one of its limits
+};
+
+// Treat the actuator as saturated once it is within 1% of its limit
+const SAT_LEVEL = 0.99;
+
+// t, y, u, sp as streamed by the worker; y0 is where the output started the step.
+// limits are the actuator's [lower, upper] output limits.
+export function stepMetrics(
+  t: number[],
+  y: number[],
+  u: number[],
+  sp: number[],
+  y0: number,
+  limits: [number, number] = [-1, 1]
+): StepMetrics {
+  const [lo, hi] = limits;
+  let iae = 0;
+  let ise = 0;
+  let itae = 0;
+  let saturated = 0;
+  let peak = 0;
+  const t0 = t.length ? t[0] : 0;
+  for (let i = 0; i < t.length; i++) {
+    const dt = i > 0 ? t[i] - t[i - 1] : t.length > 1 ? t[1] - t[0] : 0;
+    const e = sp[i] - y[i];
+    iae += Math.abs(e) * dt;
+    ise += e * e * dt;
+    itae += (t[i] - t0) * Math.abs(e) * dt;
+    if ((hi > 0 && u[i] >= SAT_LEVEL * hi) || (lo < 0 && u[i] <= SAT_LEVEL * lo)) saturated++;
+    // Signed so overshoot is measured in the direction of the step
+    const step = sp[i] - y0;
+    if (Math.abs(step) > 1e-9) peak = Math.max(peak, (y[i] - sp[i]) / step);
+  }
+  return {
+    iae,
+    ise,
+    itae,
+    overshoot: peak,
+    saturation: t.length ? saturated / t.length : 0
+  };
+}
+
+// Live analysis of the most recent setpoint change in a streamed window
+export type StepAnalysis = {
+  tStep: number;               // when the setpoint changed
+  y0: number;                  // output just before the change
+  target: number;              // new setpoint
+  tRise10: number | null;      // output first 10% of the way there
+  tRise90: number | null;      // output first 90% of the way there
+  riseTime: number | null;     // 10–90% rise time
+  overshoot: number;           // fraction of the step size
+  tPeak: number;
+  yPeak: number;
+  settlingTime: number | null; // time after the step to stay within the band (null = not yet)
+  sse: number;                 // setpoint minus the recent average output
+  iae: number;
+  saturation: number;
+};
+
+// band is the settling tolerance as a fraction of the step size.
+// Returns null if no setpoint change (or start from Reset) is inside the window.
+export function analyzeStep(
+  data: { t: number[]; y: number[]; u: number[]; sp: number[] },
+  band: number,
+  limits: [number, number] = [-1, 1]
+): StepAnalysis | null {
+  const { t, y, u, sp } = data;
+  const n = t.length;
+  if (n < 2) return null;
+  let i0 = -1;
+  for (let i = n - 1; i > 0; i--) {
+    if (sp[i] !== sp[i - 1]) { i0 = i; break; }
+  }
+  // No change in the window: the run itself is a step if the window still reaches back to Reset
+  if (i0 < 0) {
+    if (t[0] > 1.5 * (t[1] - t[0])) return null;
+    i0 = 0;
+  }
+  const y0 = i0 > 0 ? y[i0 - 1] : y[0];
+  const target = sp[n - 1];
+  const size = target - y0;
+  if (Math.abs(size) < 1e-9) return null;
+  const tStep = i0 > 0 ? t[i0 - 1] : t[0] - (t[1] - t[0]);
+  const seg = { t: t.slice(i0), y: y.slice(i0), u: u.slice(i0), sp: sp.slice(i0) };
+  const base = stepMetrics(seg.t, seg.y, seg.u, seg.sp, y0, limits);
+  let tRise10: number | null = null;
+  let tRise90: number | null = null;
+  let iPeak = 0;
+  let lastOutside = -1;
+  for (let i = 0; i < seg.t.length; i++) {
+    const progress = (seg.y[i] - y0) / size;
+    if (tRise10 === null && progress >= 0.1) tRise10 = seg.t[i];
+    if (tRise90 === null && progress >= 0.9) tRise90 = seg.t[i];
+    if ((seg.y[i] - y0) / size > (seg.y[iPeak] - y0) / size) iPeak = i;
+    if (Math.abs(seg.y[i] - target) > band * Math.abs(size)) lastOutside = i;
+  }
+  const settled = lastOutside < seg.t.length - 1;
+  // Average the last few samples so sensor noise doesn't dominate
+  const tail = seg.y.slice(-Math.min(50, seg.y.length));
+  const yEnd = tail.reduce((a, b) => a + b, 0) / tail.length;
+  return {
+    tStep,
+    y0,
+    target,
+    tRise10,
+    tRise90,
+    riseTime: tRise10 !== null && tRise90 !== null ? tRise90 - tRise10 : null,
+    overshoot: base.overshoot,
+    tPeak: seg.t[iPeak],
+    yPeak: seg.y[iPeak],
+    settlingTime: settled ? seg.t[lastOutside + 1] - tStep : null,
+    sse: target - yEnd,
+    iae: base.iae,
+    saturation: base.saturation
+  };
+}
+
+// How a loop rides out a disturbance that starts at tEvent, looking at samples up to tEnd
+export type Recovery = {
+  maxError: number;            // largest distance from the setpoint after the event
+  recoveryTime: number | null; // time after the event to get back within the band for good (null = never)
+};
+
+// band is the tolerance as a fraction of the setpoint
+export function disturbanceRecovery(
+  t: number[],
+  y: number[],
+  sp: number[],
+  tEvent: number,
+  tEnd: number,
+  band: number
+): Recovery {
+  let maxError = 0;
+  let lastOutside = -1;
+  let last = -1;
+  for (let i = 0; i < t.length; i++) {
+    if (t[i] <= tEvent || t[i] > tEnd) continue;
+    const error = Math.abs(sp[i] - y[i]);
+    maxError = Math.max(maxError, error);
+    if (error > band * Math.abs(sp[i])) lastOutside = i;
+    last = i;
+  }
+  if (last < 0 || lastOutside === last) return { maxError, recoveryTime: null };
+  return { maxError, recoveryTime: lastOutside < 0 ? 0 : t[lastOutside + 1] - tEvent };
+}
@@ -0,0 +1,118 @@
+// Gain search: Nelder–Mead over offset log-gains, scoring each candidate with a simulated step response
+
+import { StepMetrics } from './metrics';
+
+export type Objective = 'iae' | 'ise' | 'itae';
+
+export type Gains = { kp: number; ki: number; kd: number };
+
+export type OptimizeOptions = {
+  objective: Objective;
+  maxOvershoot?: number;   // fraction of the step; undefined = unconstrained
+  maxSaturation?: number;  // fraction of the time at the actuator limits; undefined = unconstrained
+  maxEvaluations: number;
+  tune: Record<keyof Gains, boolean>; // gains left out keep their starting value
+};
+
+export type OptimizeProgress = {
+  evaluations: number;
+  best: Gains;
+  bestCost: number;
+  bestMetrics: StepMetrics;
+};
+
+// Violated constraints dominate the objective so the search is pushed back into the feasible region
+const PENALTY = 1e3;
+
+export function cost(m: StepMetrics, options: OptimizeOptions): number {
+  let c = m[options.objective];
+  if (options.maxOvershoot !== undefined) c += PENALTY * Math.max(0, m.overshoot - options.maxOvershoot);
+  if (options.maxSaturation !== undefined) c += PENALTY * Math.max(0, m.saturation - options.maxSaturation);
+  return Number.isFinite(c) ? c : Infinity;
+}
+
+// Searching x = log10(gain + GAIN_OFFSET) lets the simplex span several decades, and every
+// x at or below log10(GAIN_OFFSET) is a gain of exactly 0, so the search can turn a term off
+const GAIN_OFFSET = 1e-2;
+const GAIN_KEYS: (keyof Gains)[] = ['kp', 'ki', 'kd'];
+const toCoord = (k: number) => Math.log10(Math.max(k, 0) + GAIN_OFFSET);
+const toGain = (x: number) => Math.max(0, 10 ** x - GAIN_OFFSET);
+
+// evaluate runs one simulated step response; shouldStop is polled between evaluations
+export async function optimizeGains(
+  start: Gains,
+  evaluate: (g: Gains) => Promise<StepMetrics>,
+  options: OptimizeOptions,
+  onProgress: (p: OptimizeProgress) => void,
+  shouldStop: () => boolean
+): Promise<OptimizeProgress | null> {
+  let best: OptimizeProgress | null = null;
+  let evaluations = 0;
+  const free = GAIN_KEYS.filter(k => options.tune[k]);
+  const toGains = (x: number[]): Gains => {
+    const gains = { ...start };
+    free.forEach((k, i) => { gains[k] = toGain(x[i]); });
+    return gains;
+  };
+  const f = async (x: number[]): Promise<number> => {
+    const gains = toGains(x);
+    const metrics = await evaluate(gains);
+    const c = cost(metrics, options);
+    evaluations++;
+    if (!best || c < best.bestCost) best = { evaluations, best: gains, bestCost: c, bestMetrics: metrics };
+    onProgress({ ...best, evaluations });
+    return c;
+  };
+  const done = () => shouldStop() || evaluations >= options.maxEvaluations;
+  // With every gain pinned there is nothing to search: just score the starting gains
+  if (free.length === 0) await f([]);
+  else await nelderMead(f, free.map(k => toCoord(start[k])), 0.5, done);
+  const result = best as OptimizeProgress | null;
+  return result && { ...result, evaluations };
+}
+
+// Standard Nelder–Mead (reflect, expand, contract, shrink) on an async objective
+async function nelderMead(
+  f: (x: number[]) => Promise<number>,
+  x0: number[],
+  stepSize: number,
+  done: () => boolean
+): Promise<void> {
+  const n = x0.length;
+  const simplex: { x: number[]; fx: number }[] = [{ x: x0, fx: await f(x0) }];
+  for (let i = 0; i < n && !done(); i++) {
+    const x = x0.slice();
+    x[i] += stepSize;
+    simplex.push({ x, fx: await f(x) });
+  }
+  if (simplex.length <= n) return;
+  const combine = (a: number[], b: number[], k: number) => a.map((ai, i) => ai + k * (b[i] - ai));
+  while (!done()) {
+    simplex.sort((a, b) => a.fx - b.fx);
+    const worst = simplex[n];
+    // Converged once every vertex scores the same
+    if (Math.abs(worst.fx - simplex[0].fx) < 1e-9 * (1 + Math.abs(simplex[0].fx))) return;
+    const centroid = new Array(n).fill(0);
+    for (let i = 0; i < n; i++) for (let j = 0; j < n; j++) centroid[j] += simplex[i].x[j] / n;
+    const xr = combine(centroid, worst.x, -1);
+    const fr = await f(xr);
+    if (fr < simplex[0].fx) {
+      const xe = combine(centroid, worst.x, -2);
+      const fe = await f(xe);
+      simplex[n] = fe < fr ? { x: xe, fx: fe } : { x: xr, fx: fr };
+    } else if (fr < simplex[n - 1].fx) {
+      simplex[n] = { x: xr, fx: fr };
+    } else {
+      const xc = fr < worst.fx ? combine(centroid, xr, 0.5) : combine(centroid, worst.x, 0.5);
+      const fc = await f(xc);
+      if (fc < Math.min(fr, worst.fx)) {
+        simplex[n] = { x: xc, fx: fc };
+      } else {
+        for (let i = 1; i <= n && !done(); i++) {
+          const x = combine(simplex[0].x, simplex[i].x, 0.5);
+          simplex[i] = { x, fx: await f(x) };
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,52 @@
+// Seeded pseudo-random numbers, so a randomized plant can be recreated from its seed
+
+// Mulberry32: small, fast 32-bit PRNG returning values in [0, 1)
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(a ^ (a >>> 15), 1 | a);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Short enough to read out to a class
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1e6);
+}
+
+export type PlantDraw = {
+  // Shown in the Playground
+  friction: number;
+  drag: number;
+  inertiaJ: number;
+  loadTorque: number;
+  // Hidden in the worker
+  mass: number;
+  K: number;
+  armMass: number;
+  armLength: number;
+  armHold: number;      // fraction of full command needed to hold the arm level
+  elevatorMass: number;
+  elevatorHold: number; // fraction of full command needed to hold the elevator up
+};
+
+// Every randomized plant parameter, drawn in a fixed order so the UI and the worker
+// agree on the plant for a given seed
+export function plantFromSeed(seed: number): PlantDraw {
+  const rand = mulberry32(seed);
+  return {
+    friction: +(rand() * 3.0).toFixed(2),
+    drag: +(rand() * 2.0).toFixed(2),
+    inertiaJ: +(0.001 + rand() * (0.2 - 0.001)).toFixed(3),
+    loadTorque: +(rand() * 1.0).toFixed(2),
+    mass: 0.5 + rand() * 4.5,       // 0.5 .. 5.0
+    K: 0.5 + rand() * 2.5,          // 0.5 .. 3.0
+    armMass: 0.5 + rand() * 1.5,    // 0.5 .. 2.0
+    armLength: 0.3 + rand() * 0.5,  // 0.3 .. 0.8
+    armHold: 0.2 + rand() * 0.5,    // 0.2 .. 0.7
+    elevatorMass: 0.5 + rand() * 1.5,
+    elevatorHold: 0.2 + rand() * 0.5
+  };
+}
@@ -0,0 +1,128 @@
+// Closed-loop poles of the linearized loop, and how they move as the gains are scaled together
+
+import { LinearLoop } from './frequency';
+
+export type Complex = { re: number; im: number };
+
+// Polynomials are coefficient arrays in ascending powers of s
+function polyMul(a: number[], b: number[]): number[] {
+  const out = new Array(a.length + b.length - 1).fill(0);
+  for (let i = 0; i < a.length; i++) for (let j = 0; j < b.length; j++) out[i + j] += a[i] * b[j];
+  return out;
+}
+
+function polyAdd(a: number[], b: number[]): number[] {
+  const out = new Array(Math.max(a.length, b.length)).fill(0);
+  a.forEach((c, i) => { out[i] += c; });
+  b.forEach((c, i) => { out[i] += c; });
+  return out;
+}
+
+// Durand–Kerner: refine all roots at once from points spread around a circle
+export function polyRoots(coeffs: number[]): Complex[] {
+  const c = coeffs.slice();
+  // Drop vanishing leading terms (e.g. no D filter lowers the degree)
+  const scale = Math.max(...c.map(Math.abs), 1e-300);
+  while (c.length > 1 && Math.abs(c[c.length - 1]) < 1e-12 * scale) c.pop();
+  const n = c.length - 1;
+  if (n < 1) return [];
+  const lead = c[n];
+  const monic = c.map(x => x / lead);
+  // Cauchy bound on the root magnitudes sets the starting circle
+  const radius = 1 + Math.max(...monic.slice(0, n).map(Math.abs));
+  let roots: Complex[] = Array.from({ length: n }, (_, k) => ({
+    re: radius * Math.cos((2 * Math.PI * k) / n + 0.4),
+    im: radius * Math.sin((2 * Math.PI * k) / n + 0.4)
+  }));
+  const evalAt = (z: Complex): Complex => {
+    let re = monic[n];
+    let im = 0;
+    for (let i = n - 1; i >= 0; i--) {
+      const r = re * z.re - im * z.im + monic[i];
+      im = re * z.im + im * z.re;
+      re = r;
+    }
+    return { re, im };
+  };
+  for (let iter = 0; iter < 500; iter++) {
+    let moved = 0;
+    roots = roots.map((z, i) => {
+      let den = { re: 1, im: 0 };
+      roots.forEach((w, j) => {
+        if (j === i) return;
+        const d = { re: z.re - w.re, im: z.im - w.im };
+        den = { re: den.re * d.re - den.im * d.im, im: den.re * d.im + den.im * d.re };
+      });
+      const f = evalAt(z);
+      const mag = den.re * den.re + den.im * den.im || 1e-300;
+      const q = { re: (f.re * den.re + f.im * den.im) / mag, im: (f.im * den.re - f.re * den.im) / mag };
+      moved = Math.max(moved, Math.hypot(q.re, q.im));
+      return { re: z.re - q.re, im: z.im - q.im };
+    });
+    if (moved < 1e-12 * radius) break;
+  }
+  return roots;
+}
+
+// PID numerator and denominator at the current gains, over a common denominator
+function controllerPolys(loop: LinearLoop): { num: number[]; den: number[] } {
+  const tf = loop.dFilterTau;
+  const pd = polyAdd(polyMul([loop.kp], [1, tf]), [0, loop.kd]);
+  // Without I the s in kp + ki/s + ... cancels; leaving it in would pin a phantom pole at the origin
+  if (loop.ki === 0) return { num: pd, den: [1, tf] };
+  return { num: polyAdd(polyMul(pd, [0, 1]), polyMul([loop.ki], [1, tf])), den: [0, 1, tf] };
+}
+
+// L(s) = g · C(s) · A(s) · P(s), with the loop delay as a first-order Padé approximation
+// (1 − sT/2) / (1 + sT/2) so the characteristic equation stays a polynomial
+function loopPolys(loop: LinearLoop): { num: number[]; den: number[] } {
+  const c = controllerPolys(loop);
+  const da = [1, loop.tauLag];
+  const dp = loop.plant === 'sled' ? [0, loop.damping, loop.inertia] : [loop.damping, loop.inertia];
+  const half = loop.delay / 2;
+  return {
+    num: polyMul(c.num, [loop.K, -loop.K * half]),
+    den: polyMul(polyMul(polyMul(c.den, da), dp), [1, half])
+  };
+}
+
+export function closedLoopPoles(loop: LinearLoop, g = 1): Complex[] {
+  const { num, den } = loopPolys(loop);
+  return polyRoots(polyAdd(den, num.map(c => c * g)));
+}
+
+// Zeros the controller adds (the Padé zero is an artifact of the delay approximation)
+export function closedLoopZeros(loop: LinearLoop): Complex[] {
+  return polyRoots(controllerPolys(loop).num);
+}
+
+export type RootLocus = {
+  gains: number[];         // scale factors swept (1 = current gains)
+  poles: Complex[][];      // closed-loop poles at each scale
+  critical: number | null; // smallest scale that puts a pole in the right half-plane
+};
+
+const maxReal = (poles: Complex[]) => Math.max(...poles.map(p => p.re));
+
+// Sweep every gain by a common factor so the Ki/Kp and Kd/Kp ratios stay fixed
+export function rootLocus(loop: LinearLoop, gMin = 1e-3, gMax = 1e3, n = 240): RootLocus {
+  const gains = [0];
+  for (let i = 0; i < n; i++) gains.push(gMin * Math.pow(gMax / gMin, i / (n - 1)));
+  const poles = gains.map(g => closedLoopPoles(loop, g));
+  let critical: number | null = null;
+  // The integrator and sled poles start on the axis at g = 0, so look for the first crossing after that
+  for (let i = 2; i < gains.length; i++) {
+    if (maxReal(poles[i - 1]) < 0 && maxReal(poles[i]) >= 0) {
+      let lo = gains[i - 1];
+      let hi = gains[i];
+      for (let k = 0; k < 40; k++) {
+        const mid = Math.sqrt(lo * hi);
+        if (maxReal(closedLoopPoles(loop, mid)) < 0) lo = mid;
+        else hi = mid;
+      }
+      critical = hi;
+      break;
+    }
+  }
+  return { gains, poles, critical };
+}
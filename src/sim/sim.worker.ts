@@ -1,4 +1,8 @@
-// Web Worker: runs a P-only control loop on a first-order plant and streams data
+// Web Worker: simulates one card's control loop (PID and its variants, feedforward, cascade,
+// relay and flywheel controllers) on the selected plant and streams data
+import { actuatorLimits, DEFAULT_ACTUATOR_LAG, defaultGearRatio } from './actuator';
+import { mulberry32, plantFromSeed } from './random';
+import { FormGains, fromParallel, ParallelGains, PidForm, toParallel } from './forms';
 
 type StartMessage = {
   type: 'start';
@@ -11,22 +15,137 @@ type UpdateMessage = {
   params: SimParams;
   running: boolean;
 };
-type RandomizeMessage = { type: 'randomize' };
+type RandomizeMessage = { type: 'randomize'; seed: number };
 type ResetMessage = { type: 'reset' };
+// Apply a disturbance right now (the "bump the robot" button)
+type DisturbMessage = {
+  type: 'disturb';
+  disturbance: Omit<Disturbance, 'at'>;
+};
+// Simulate a whole experiment as fast as possible, off to the side of the live loop
+type RunMessage = {
+  type: 'run';
+  id: number;                 // echoed in the reply so callers can match results
+  params: SimParams;
+  duration: number;           // simulated seconds
+  initial?: Partial<PlantState>; // starting state (defaults to the usual reset state)
+  schedule?: { t: number; setpoint: number }[]; // setpoint changes, sorted by time
+};
+
+// External force (sled) or torque (flywheel) applied on top of the control input
+type Disturbance = {
+  kind: 'step' | 'impulse' | 'periodic';
+  at: number;          // sim time the disturbance starts
+  magnitude: number;   // force/torque, or momentum change for an impulse
+  duration?: number;   // step/periodic: how long it lasts (omit for forever)
+  period?: number;     // periodic: seconds per cycle
+};
+
+type SimEvent = { t: number; label: string };
+
+// One row of a gain schedule: the gains to use at operating point `at`
+type GainPoint = { at: number; kp: number; ki: number; kd: number };
+
+// Continuous state integrated by the physics substeps
+type PlantState = {
+  y: number;     // position (sled, arm angle, elevator height)
+  v: number;     // velocity of y
+  omega: number; // flywheel speed
+  u: number;     // actuator output after lag
+};
 
 type SimParams = {
   dt: number;
   kp: number;
   ki?: number;
   kd?: number;
+  // Anti-windup strategy for the integral term
+  antiWindup?: 'none' | 'conditional' | 'backcalc' | 'clamp' | 'izone' | 'reset';
+  kt?: number;     // back-calculation tracking gain
+  iLimit?: number; // clamp: max |ki * ei| contribution to the command
+  iZone?: number;  // I-zone: only integrate while |e| is below this
+  // Derivative term options
+  dFilterTau?: number;          // first-order low-pass time constant on D (seconds, 0 = off)
+  dOnMeasurement?: boolean;     // differentiate -y instead of e (no kick on setpoint steps)
+  // Controller form: parallel uses kp/ki/kd; ideal (ISA) and series use kc/ti/td (ti = 0: no I).
+  // Without kc the form falls back to kp/ki/kd (gains with no equivalent in that form)
+  form?: 'parallel' | 'ideal' | 'series';
+  kc?: number;
+  ti?: number;
+  td?: number;
+  // Setpoint weights (2-DOF PID): P acts on b*r - y and D on c*r - y; I always sees r - y
+  setpointWeightP?: number;     // b, default 1
+  setpointWeightD?: number;     // c, default 1 (derivative on measurement forces 0)
+  // Sensor model between plant and controller
+  noiseSigma?: number;    // Gaussian measurement noise standard deviation
+  quantization?: number;  // encoder tick size (0 = continuous)
+  sensorDelay?: number;   // measurement latency in samples
+  // Feedforward gains (added to the PID output before saturation)
+  kS?: number;   // static: overcomes friction in the direction of travel
+  kV?: number;   // velocity: command per unit of reference velocity
+  kA?: number;   // acceleration: command per unit of reference acceleration
+  kG?: number;   // gravity: constant command to hold against gravity
+  // Control law: PID, position-over-velocity cascade, take-back-half or bang-bang for the
+  // flywheel, an on/off relay for auto-tuning, or a fixed open-loop command for identification
+  controller?: 'pid' | 'cascade' | 'tbh' | 'bang-bang' | 'relay' | 'open-loop';
+  relayAmplitude?: number;  // relay output is ±d on top of the feedforward
+  relayHysteresis?: number; // error must cross ±ε before the relay switches
+  openLoopU?: number;       // open-loop command (feedback ignored)
+  // Cascade: kp/ki/kd become the outer position loop, which sets the inner velocity loop's reference
+  innerKp?: number;
+  innerKi?: number;
+  innerKd?: number;
+  outerDivider?: number;    // outer loop runs once every N control periods
+  maxInnerVel?: number;     // limit on the velocity reference the outer loop may ask for
+  // Take-back-half (flywheel only)
+  tbhGain?: number;         // how fast the output ramps per unit of speed error, per second
+  tbhInitial?: number;      // output to jump to at the first crossing after a new target
+  // Bang-bang (flywheel only): full power once the speed is bangOn below the target,
+  // back to the feedforward floor once the error drops below bangOff
+  bangOn?: number;
+  bangOff?: number;
+  bangFloor?: number;
+  // Gain scheduling: interpolate Kp/Ki/Kd between table rows keyed on |error|, the setpoint
+  // or the measured output, instead of using kp/ki/kd directly (each row runs in the selected form)
+  scheduleBy?: 'none' | 'error' | 'setpoint' | 'measured';
+  gainSchedule?: GainPoint[];
   setpoint: number;
+  seed?: number;         // seed the hidden plant (and sensor noise) was drawn from
   // Inertial plant exposed param(s)
   friction: number;    // b (viscous)
   // Plant selection and flywheel params
-  plant?: 'sled' | 'flywheel';
+  plant?: 'sled' | 'flywheel' | 'arm' | 'elevator';
   drag?: number;         // flywheel viscous drag
   inertiaJ?: number;     // flywheel inertia
   loadTorque?: number;   // constant opposing torque
+  disturbances?: Disturbance[]; // scheduled disturbances (sim time since Reset)
+  // Numerical integration of the actuator and plant within each physics step
+  integrator?: 'euler' | 'semi-implicit' | 'rk4';
+  substeps?: number;     // physics steps per dt
+  // Controller sampling, independent of the physics step dt
+  controlPeriod?: number;  // seconds between controller updates (defaults to dt)
+  controlJitter?: number;  // each period varies uniformly by ± this many seconds
+  computeDelay?: boolean;  // apply each command one controller period after it was computed
+  // Actuator between the command and the plant (full scale is ±1)
+  actuatorLag?: number;      // first-order lag time constant (seconds), default 0.08
+  actuatorDeadband?: number; // outputs smaller than this produce no effort, default 0.02
+  slewRate?: number;         // fastest the output can change, per second (0 = unlimited)
+  uMax?: number;             // upper output limit, default 1
+  uMin?: number;             // lower output limit, default -uMax
+  // Optional brushed DC motor between the command and the plant (replaces the hidden gain K)
+  motorModel?: boolean;
+  stallTorque?: number;       // motor torque (or force) at 12 V with the shaft held still
+  freeSpeed?: number;         // unloaded motor speed at 12 V, in plant velocity units
+  gearRatio?: number;         // reduction to the plant: multiplies torque, divides speed
+  resistance?: number;        // winding resistance (ohms)
+  supplyVoltage?: number;     // battery open-circuit voltage
+  currentLimit?: number;      // motor controller current limit (amps)
+  batteryResistance?: number; // battery + wiring internal resistance (ohms)
+  // Motion profile applied to sled setpoint changes
+  profile?: 'none' | 'trapezoid' | 'scurve';
+  maxVel?: number;       // profile velocity limit
+  maxAccel?: number;     // profile acceleration limit
+  maxJerk?: number;      // profile jerk limit (S-curve only)
 };
 
 type DataMessage = {
@@ -35,6 +154,26 @@ type DataMessage = {
   y: number[];
   u: number[];
   sp: number[];
+  ref: number[];
+  ff: number[];
+  fb: number[];
+  dTerm: number[];
+  ym: number[];
+  events: SimEvent[];
+  current: number[];
+  voltage: number[];
+  vRef: number[]; // cascade inner loop: velocity reference
+  vel: number[];  // cascade inner loop: measured velocity
+  cmd: number[];  // controller command, held between updates
+  kpActive: number[]; // gains in use, which only differ from kp/ki/kd with a schedule
+  kiActive: number[];
+  kdActive: number[];
+};
+
+// Full trace of a headless run (not truncated to the live window)
+type RunResultMessage = Omit<DataMessage, 'type'> & {
+  type: 'runResult';
+  id: number;
 };
 
 let p: SimParams = {
@@ -50,6 +189,8 @@ let p: SimParams = {
   loadTorque: 0
 };
 let running = true;
+// True while a headless run is borrowing the simulator: buffers keep every sample
+let headless = false;
 
 // Plant state and controller state
 let y = 0; // position/output
@@ -63,14 +204,77 @@ let omega = 0;
 let ei = 0;
 // Previous error for derivative term
 let ePrev = 0;
+// Measured output seen by the controller, and the sensor's delay line
+let ym = 0;
+const sensorQueue: number[] = [];
+// Previous output for derivative-on-measurement, and the low-pass filtered derivative
+let yPrev: number | null = null;
+let deFilt = 0;
+// Profiled reference the controller tracks (equals the setpoint when no profile is active)
+let ref = 0;
+// Internal trapezoid state, plus its recent positions for S-curve smoothing
+let trapPos = 0;
+let trapVel = 0;
+const smoothBuf: number[] = [];
+// Previous reference and reference rate, used to derive the feedforward reference
+let refPrev: number | null = null;
+let refRatePrev = 0;
+// Last feedforward and feedback contributions (for charting)
+let uFF = 0;
+let uFB = 0;
+let uD = 0;
+// Which side the relay is on (it only switches once the error leaves the hysteresis band)
+let relayHigh = true;
+// Cascade state: the outer loop's integral and last error, the velocity reference it holds
+// between its (slower) updates, and the inner loop's integral and last error
+let outerEi = 0;
+let outerEPrev = 0;
+let vRefInner = 0;
+let innerEi = 0;
+let innerEPrev = 0;
+let controlTick = 0; // control periods since reset, for the outer loop's divider
+// Take-back-half: its output, the output at the last zero crossing, and the target it is chasing
+let tbhOut = 0;
+let tbhTakeBack = 0;
+let tbhFirstCross = true;
+let tbhTarget = 0;
+// Whether bang-bang is currently at full power
+let bangFull = false;
+// Gains used by the last controller update
+let activeGains: ParallelGains = { kp: 0, ki: 0, kd: 0 };
+// Controller clock: when it next runs, when it last ran, and the interval it is acting on
+let nextControlT = 0;
+let lastControlT: number | null = null;
+let controlDt = 0.01;
+// Command computed at the last update but held back by the computation delay
+let uCmdNext = 0;
+// Timing jitter source, reseeded on reset like the sensor noise
+let jitterRand = mulberry32(1);
+
+// Disturbances triggered manually during this run, and markers for those that have fired
+const manualDisturbances: Disturbance[] = [];
+const firedEvents: SimEvent[] = [];
+
+// Motor electrical state: winding current and battery terminal voltage
+let iMotor = 0;
+let vBus = 12;
 
 // Hidden plant parameters
 let mass = 1.0;      // m
 let K = 1.0;         // gain
-const tauLag = 0.08; // actuator lag (seconds), small first-order lag
-// Minimum control deadband: below ~2% of full-scale, actuator produces no motion
-// We assume actuator "full-scale" is 1.0 in these units.
-const U_DEADBAND = 0.02;
+// Arm: point mass at the end of a massless link, torque K*u at the joint
+let armMass = 1.0;   // kg
+let armLength = 0.5; // m
+let armK = 9.81;     // N·m per unit command
+// Elevator: carriage lifted against gravity, force K*u
+let elevatorMass = 1.0; // kg
+let elevatorK = 25;     // N per unit command
+const GRAVITY = 9.81;
+// Hard stops (radians) and travel limits (m)
+const ARM_MIN = -Math.PI / 2;
+const ARM_MAX = Math.PI / 2;
+const ELEVATOR_MIN = 0;
+const ELEVATOR_MAX = 2;
 
 // Buffers for chart updates
 const maxPoints = 2000;
@@ -78,81 +282,600 @@ const tBuf: number[] = [];
 const yBuf: number[] = [];
 const uBuf: number[] = [];
 const spBuf: number[] = [];
+const refBuf: number[] = [];
+const ffBuf: number[] = [];
+const fbBuf: number[] = [];
+const dBuf: number[] = [];
+const ymBuf: number[] = [];
+const iBuf: number[] = [];
+const vBuf: number[] = [];
+const vRefBuf: number[] = [];
+const velBuf: number[] = [];
+const cmdBuf: number[] = [];
+const kpBuf: number[] = [];
+const kiBuf: number[] = [];
+const kdBuf: number[] = [];
 
-function step() {
-  // P-only: u = Kp * (r - y)
-  const e = p.setpoint - y;
-  // PI control with improved anti-windup
-  const ki = p.ki ?? 0;
-  const kp = p.kp;
-  const kd = p.kd ?? 0;
-  // Predict saturation using the command side and error direction
-  const de = (e - ePrev) / Math.max(p.dt, 1e-6);
+function sign(x: number): number {
+  return x > 0 ? 1 : x < 0 ? -1 : 0;
+}
+
+const DISTURBANCE_LABELS: Record<Disturbance['kind'], string> = {
+  step: 'Load step',
+  impulse: 'Bump',
+  periodic: 'Periodic'
+};
+
+// Sum the disturbances acting during [t, t + dt): a continuous force plus any impulses
+function disturbanceAt(tNow: number, dt: number): { force: number; impulse: number } {
+  let force = 0;
+  let impulse = 0;
+  for (const d of [...(p.disturbances ?? []), ...manualDisturbances]) {
+    if (d.at >= tNow && d.at < tNow + dt) {
+      firedEvents.push({ t: d.at, label: DISTURBANCE_LABELS[d.kind] });
+    }
+    const elapsed = tNow - d.at;
+    if (d.kind === 'impulse') {
+      if (d.at >= tNow && d.at < tNow + dt) impulse += d.magnitude;
+      continue;
+    }
+    if (elapsed < 0 || (d.duration !== undefined && elapsed > d.duration)) continue;
+    if (d.kind === 'step') {
+      force += d.magnitude;
+    } else {
+      const period = Math.max(d.period ?? 1, 1e-3);
+      force += d.magnitude * Math.sin((2 * Math.PI * elapsed) / period);
+    }
+  }
+  return { force, impulse };
+}
+
+// Brushed DC motor: I = (V - kE*speed) / R, torque = kT*I, rated at a nominal 12 V.
+// The bus sags by the battery current (motor current times duty cycle) from the last step.
+// A gearbox of ratio G spins the motor G times faster than the plant and multiplies its torque by G.
+function motorOutput(uEff: number, speed: number): { torque: number; current: number; busVoltage: number } {
+  const V_NOMINAL = 12;
+  const R = Math.max(p.resistance ?? 0.1, 1e-4);
+  const kE = V_NOMINAL / Math.max(p.freeSpeed ?? 5, 1e-6);
+  const kT = ((p.stallTorque ?? 2) * R) / V_NOMINAL;
+  const G = Math.max(p.gearRatio ?? defaultGearRatio(p.plant), 1e-3);
+  const busVoltage = Math.max(0, (p.supplyVoltage ?? 12) - (p.batteryResistance ?? 0.02) * Math.abs(iMotor * uEff));
+  const iLimit = Math.max(p.currentLimit ?? 40, 0);
+  const current = Math.max(-iLimit, Math.min(iLimit, (uEff * busVoltage - kE * G * speed) / R));
+  return { torque: G * kT * current, current, busVoltage };
+}
+
+// Minimum control deadband: below ~2% of full-scale by default, actuator produces no motion
+function deadband(uOut: number): number {
+  return Math.abs(uOut) < Math.max(p.actuatorDeadband ?? 0.02, 0) ? 0 : uOut;
+}
+
+// Actuator output limits; symmetric unless a separate lower limit is set
+function outputLimits(): [number, number] {
+  return actuatorLimits(p);
+}
+
+function saturate(uOut: number): number {
+  const [lo, hi] = outputLimits();
+  return Math.max(lo, Math.min(hi, uOut));
+}
+
+// Mass or inertia that the drive and disturbances act against
+function plantInertia(): number {
+  switch (p.plant ?? 'sled') {
+    case 'flywheel': return Math.max(p.inertiaJ ?? 0.05, 1e-6);
+    case 'arm': return Math.max(armMass * armLength * armLength, 1e-6);
+    case 'elevator': return Math.max(elevatorMass, 1e-6);
+    default: return Math.max(mass, 1e-6);
+  }
+}
+
+// Continuous-time dynamics of the actuator lag and the selected plant
+function derivatives(s: PlantState, uCmdNow: number, fDist: number): PlantState {
+  // First-order actuator lag: du/dt = (uCmd - u)/tauLag, no faster than the slew rate
+  const slew = Math.max(p.slewRate ?? 0, 0);
+  const duLag = (uCmdNow - s.u) / Math.max(p.actuatorLag ?? DEFAULT_ACTUATOR_LAG, 1e-6);
+  const du = slew > 0 ? Math.max(-slew, Math.min(slew, duLag)) : duLag;
+  const uEff = deadband(saturate(s.u));
+  const plant = p.plant ?? 'sled';
+  // Actuator effort: either the hidden gain times the command, or the motor model's torque
+  const speed = plant === 'flywheel' ? s.omega : s.v;
+  const drive = (gain: number) => p.motorModel ? motorOutput(uEff, speed).torque : gain * uEff;
+  const inertia = plantInertia();
+  if (plant === 'flywheel') {
+    // Flywheel plant: J * domega/dt + b * omega + tauLoad = K * u + tauDist
+    const b = p.drag ?? 0.2;
+    const tauLoad = p.loadTorque ?? 0;
+    return { y: 0, v: 0, omega: (drive(K) - b * s.omega - tauLoad + fDist) / inertia, u: du };
+  }
+  let accel: number;
+  if (plant === 'arm') {
+    // Arm: I * dω/dt + b * ω + m*g*L*cos(θ) = K * u + τDist, with I = m*L^2
+    const tauGravity = armMass * GRAVITY * armLength * Math.cos(s.y);
+    accel = (drive(armK) - p.friction * s.v - tauGravity + fDist) / inertia;
+  } else if (plant === 'elevator') {
+    // Elevator: m * dv/dt + b * v + m*g = K * u + fDist
+    accel = (drive(elevatorK) - p.friction * s.v - elevatorMass * GRAVITY + fDist) / inertia;
+  } else {
+    // Inertial sled (no spring): m * dv/dt + b * v = K * u + fDist
+    accel = (drive(K) - p.friction * s.v + fDist) / inertia;
+  }
+  return { y: s.v, v: accel, omega: 0, u: du };
+}
+
+function addScaled(s: PlantState, d: PlantState, k: number): PlantState {
+  return { y: s.y + k * d.y, v: s.v + k * d.v, omega: s.omega + k * d.omega, u: s.u + k * d.u };
+}
+
+// Actuator saturation and the hard stops of the arm and elevator
+function applyLimits(s: PlantState): PlantState {
+  const next = { ...s, u: saturate(s.u) };
+  const limits = p.plant === 'arm' ? [ARM_MIN, ARM_MAX] : p.plant === 'elevator' ? [ELEVATOR_MIN, ELEVATOR_MAX] : null;
+  if (limits) {
+    // Hitting a stop absorbs the momentum going into it
+    if (next.y < limits[0]) { next.y = limits[0]; next.v = Math.max(next.v, 0); }
+    if (next.y > limits[1]) { next.y = limits[1]; next.v = Math.min(next.v, 0); }
+  }
+  return next;
+}
+
+// Advance the continuous state by h with the selected method
+function integrate(s: PlantState, uCmdNow: number, fDist: number, h: number): PlantState {
+  const method = p.integrator ?? 'rk4';
+  if (method === 'euler') {
+    return applyLimits(addScaled(s, derivatives(s, uCmdNow, fDist), h));
+  }
+  if (method === 'semi-implicit') {
+    // Actuator first, then velocities, then positions from the new velocities
+    const u1 = s.u + h * derivatives(s, uCmdNow, fDist).u;
+    const d = derivatives({ ...s, u: u1 }, uCmdNow, fDist);
+    const v1 = s.v + h * d.v;
+    return applyLimits({ y: s.y + h * v1, v: v1, omega: s.omega + h * d.omega, u: u1 });
+  }
+  const k1 = derivatives(s, uCmdNow, fDist);
+  const k2 = derivatives(addScaled(s, k1, h / 2), uCmdNow, fDist);
+  const k3 = derivatives(addScaled(s, k2, h / 2), uCmdNow, fDist);
+  const k4 = derivatives(addScaled(s, k3, h), uCmdNow, fDist);
+  return applyLimits({
+    y: s.y + (h / 6) * (k1.y + 2 * k2.y + 2 * k3.y + k4.y),
+    v: s.v + (h / 6) * (k1.v + 2 * k2.v + 2 * k3.v + k4.v),
+    omega: s.omega + (h / 6) * (k1.omega + 2 * k2.omega + 2 * k3.omega + k4.omega),
+    u: s.u + (h / 6) * (k1.u + 2 * k2.u + 2 * k3.u + k4.u)
+  });
+}
+
+// Sensor noise source, reseeded on reset so a run can be repeated exactly
+let noiseRand = mulberry32(0);
+
+// Standard normal sample (Box-Muller)
+function gaussian(): number {
+  const u1 = Math.max(noiseRand(), 1e-12);
+  const u2 = noiseRand();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// Sensor stage: noise, then encoder quantization, then a fixed sample delay
+function measure(trueY: number): number {
+  let m = trueY + (p.noiseSigma ?? 0) * gaussian();
+  const q = p.quantization ?? 0;
+  if (q > 0) m = Math.round(m / q) * q;
+  const delay = Math.max(0, Math.round(p.sensorDelay ?? 0));
+  sensorQueue.push(m);
+  while (sensorQueue.length > delay + 1) sensorQueue.shift();
+  return sensorQueue[0];
+}
+
+// Online trapezoidal profile: advance (trapPos, trapVel) one step toward the goal.
+// Re-plans every step, so moving the setpoint mid-motion blends smoothly.
+function advanceTrapezoid(goal: number, vMax: number, aMax: number, dt: number) {
+  const d = goal - trapPos;
+  // Fastest speed from which we can still brake to rest within |d| in discrete steps
+  const vBrake = aMax * (-dt / 2 + Math.sqrt((dt * dt) / 4 + (2 * Math.abs(d)) / aMax));
+  const vTarget = sign(d) * Math.min(vMax, vBrake);
+  const accel = Math.max(-aMax, Math.min(aMax, (vTarget - trapVel) / dt));
+  trapVel += accel * dt;
+  trapPos += trapVel * dt;
+  // Land exactly on the goal instead of creeping past it
+  if (sign(goal - trapPos) !== sign(d) || Math.abs(goal - trapPos) < 1e-9) {
+    trapPos = goal;
+    trapVel = 0;
+  }
+}
+
+// Reference generator. The S-curve is the trapezoid run through a moving average: its jerk is
+// the change in the trapezoid's acceleration across the window divided by the window length.
+// The window is sized for the worst case, a short move that flips straight from +aMax to the
+// landing step (which can brake at up to 9/8·aMax), so ordinary ramps use about half maxJerk.
+function advanceProfile(goal: number) {
+  const kind = p.profile ?? 'none';
+  if (kind === 'none' || (p.plant ?? 'sled') === 'flywheel') {
+    ref = goal;
+    trapPos = goal;
+    trapVel = 0;
+    smoothBuf.length = 0;
+    return;
+  }
+  const dt = Math.max(controlDt, 1e-6);
+  const vMax = Math.max(p.maxVel ?? 2, 1e-3);
+  const aMax = Math.max(p.maxAccel ?? 4, 1e-3);
+  advanceTrapezoid(goal, vMax, aMax, dt);
+  if (kind === 'trapezoid') {
+    ref = trapPos;
+    smoothBuf.length = 0;
+    return;
+  }
+  const jMax = Math.max(p.maxJerk ?? 20, 1e-3);
+  const n = Math.max(1, Math.ceil((2.125 * aMax) / jMax / dt - 1e-9));
+  // Seed the window with where the reference currently is so the first samples don't jump
+  if (smoothBuf.length === 0) smoothBuf.push(ref);
+  smoothBuf.push(trapPos);
+  while (smoothBuf.length < n) smoothBuf.unshift(smoothBuf[0]);
+  while (smoothBuf.length > n) smoothBuf.shift();
+  let sum = 0;
+  for (const x of smoothBuf) sum += x;
+  ref = smoothBuf.every(x => x === goal) ? goal : sum / n;
+}
+
+// Feedforward from the reference trajectory: uFF = kS*sgn(v) + kV*v + kA*a + kG
+// For the flywheel the reference is already a speed; for the other plants it is a position,
+// so its rate of change is the reference velocity. On the arm, gravity scales with cos(θ).
+function feedforward(): number {
+  const kS = p.kS ?? 0;
+  const kV = p.kV ?? 0;
+  const kA = p.kA ?? 0;
+  const kG = p.kG ?? 0;
+  const dt = Math.max(controlDt, 1e-6);
+  // Clamp reference rates so an instant setpoint jump doesn't produce an infinite spike
+  const RATE_CLAMP = 1e3;
+  const refRate = Math.max(-RATE_CLAMP, Math.min(RATE_CLAMP, (ref - (refPrev ?? ref)) / dt));
+  const refRateAccel = Math.max(-RATE_CLAMP, Math.min(RATE_CLAMP, (refRate - refRatePrev) / dt));
+  refPrev = ref;
+  refRatePrev = refRate;
+  let vRef: number;
+  let aRef: number;
+  if ((p.plant ?? 'sled') === 'flywheel') {
+    vRef = ref;
+    aRef = refRate;
+  } else {
+    vRef = refRate;
+    aRef = refRateAccel;
+  }
+  const gravity = p.plant === 'arm' ? Math.cos(ref) : 1;
+  return kS * sign(vRef) + kV * vRef + kA * aRef + kG * gravity;
+}
+
+// Outer position PID (every outerDivider periods) → velocity reference → inner velocity PID.
+// The inner loop reads velocity straight from the plant, like an encoder's rate output.
+function cascade(e: number): number {
+  const divider = Math.max(1, Math.round(p.outerDivider ?? 1));
+  const vMax = Math.max(p.maxInnerVel ?? 2, 1e-3);
+  if (controlTick % divider === 0) {
+    const dtOuter = controlDt * divider;
+    const deOuter = (e - outerEPrev) / dtOuter;
+    outerEPrev = e;
+    const eiNext = Math.max(-1e3, Math.min(1e3, outerEi + e * dtOuter));
+    // The outer loop is the one the PID gains (or the gain schedule) describe
+    const outer = activeGains;
+    const vRefRaw = outer.kp * e + outer.ki * eiNext + outer.kd * deOuter;
+    vRefInner = Math.max(-vMax, Math.min(vMax, vRefRaw));
+    // Don't keep integrating position error while the velocity request is pinned at its limit
+    if (vRefRaw === vRefInner || sign(e) !== sign(vRefRaw)) outerEi = eiNext;
+  }
+  const eInner = vRefInner - v;
+  const deInner = (eInner - innerEPrev) / Math.max(controlDt, 1e-6);
+  innerEPrev = eInner;
+  const kpInner = p.innerKp ?? 0.5;
+  const kiInner = p.innerKi ?? 0;
+  const dInner = (p.innerKd ?? 0) * deInner;
+  const uTentative = uFF + kpInner * eInner + kiInner * innerEi + dInner;
+  // Conditional integration, as for the single loop
+  const [lo, hi] = outputLimits();
+  if (!((uTentative > hi && eInner > 0) || (uTentative < lo && eInner < 0))) {
+    innerEi = Math.max(-1e3, Math.min(1e3, innerEi + eInner * controlDt));
+  }
+  return kpInner * eInner + kiInner * innerEi + dInner;
+}
+
+// Take-back-half: integrate the speed error into the output, and every time the error changes
+// sign replace the output with the average of it and the output at the previous crossing
+function takeBackHalf(e: number): number {
+  if (ref !== tbhTarget) {
+    tbhTarget = ref;
+    tbhFirstCross = true;
+  }
+  // Integrate only up to what the actuator can deliver, so the take-back value is a real output
+  tbhOut = saturate(tbhOut + (p.tbhGain ?? 1) * e * controlDt);
+  if (sign(e) !== 0 && sign(ePrev) !== 0 && sign(e) !== sign(ePrev)) {
+    tbhOut = tbhFirstCross ? saturate((p.tbhInitial ?? 0.5) * sign(ref)) : 0.5 * (tbhOut + tbhTakeBack);
+    tbhTakeBack = tbhOut;
+    tbhFirstCross = false;
+  }
+  return tbhOut;
+}
+
+// Bang-bang with a feedforward floor, in the direction of the target speed
+function bangBang(e: number): number {
+  const dir = ref < 0 ? -1 : 1;
+  const eDir = e * dir;
+  if (eDir > (p.bangOn ?? 0)) bangFull = true;
+  else if (eDir < (p.bangOff ?? 0)) bangFull = false;
+  return dir * (bangFull ? 1 : p.bangFloor ?? 0.3);
+}
+
+// The controller law for the current operating point, in the selected form. Each form runs its
+// own structure in control(); `parallel` gives the equivalent Kp/Ki/Kd for the gain plots and the
+// cascade's outer loop.
+type PidLaw =
+  | { form: 'parallel'; gains: ParallelGains; parallel: ParallelGains }
+  | { form: Exclude<PidForm, 'parallel'>; gains: FormGains; parallel: ParallelGains };
+
+// Without kc (gains with no equivalent in that form) the fixed gains run as a parallel PID
+function formLaw(): PidLaw {
+  const form = p.form ?? 'parallel';
+  const parallel = { kp: p.kp, ki: p.ki ?? 0, kd: p.kd ?? 0 };
+  if (form === 'parallel' || p.kc === undefined) return { form: 'parallel', gains: parallel, parallel };
+  const gains = { kc: p.kc, ti: p.ti ?? 0, td: p.td ?? 0 };
+  return { form, gains, parallel: toParallel(form, gains) };
+}
+
+// Schedule rows hold Kp/Ki/Kd; the interpolated row is converted into the selected form so the
+// schedule runs through the same structure as the fixed gains
+function rowLaw(row: ParallelGains): PidLaw {
+  const form = p.form ?? 'parallel';
+  const gains = form === 'parallel' ? null : fromParallel(form, row);
+  if (form === 'parallel' || !gains) return { form: 'parallel', gains: row, parallel: row };
+  return { form, gains, parallel: row };
+}
+
+// Law for the current operating point: the fixed gains, or the schedule interpolated
+// linearly between rows and held at the end rows beyond the table
+function scheduledLaw(e: number): PidLaw {
+  const by = p.scheduleBy ?? 'none';
+  const points = [...(p.gainSchedule ?? [])].sort((a, b) => a.at - b.at);
+  if (by === 'none' || points.length === 0) return formLaw();
+  const x = by === 'error' ? Math.abs(e) : by === 'setpoint' ? p.setpoint : ym;
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (x <= first.at) return rowLaw({ kp: first.kp, ki: first.ki, kd: first.kd });
+  if (x >= last.at) return rowLaw({ kp: last.kp, ki: last.ki, kd: last.kd });
+  let i = 1;
+  while (points[i].at < x) i++;
+  const a = points[i - 1];
+  const b = points[i];
+  const f = (x - a.at) / Math.max(b.at - a.at, 1e-9);
+  return rowLaw({ kp: a.kp + f * (b.kp - a.kp), ki: a.ki + f * (b.ki - a.ki), kd: a.kd + f * (b.kd - a.kd) });
+}
+
+// One controller update, acting on the controlDt since the previous one
+function control() {
+  // Track the profiled reference rather than jumping straight to the setpoint
+  advanceProfile(p.setpoint);
+  // The controller only ever sees the sensor's view of the output
+  ym = measure(y);
+  const e = ref - ym;
+  // PID in the selected form, with the fixed gains or the gain schedule (see the law below)
+  const law = scheduledLaw(e);
+  activeGains = law.parallel;
+  // D acts on c*r - y: c = 1 differentiates the error, c = 0 (derivative on measurement)
+  // ignores setpoint jumps entirely since de/dt = -dy/dt while r is constant
+  const c = p.dOnMeasurement ? 0 : p.setpointWeightD ?? 1;
+  const de = c === 1
+    ? (e - ePrev) / Math.max(controlDt, 1e-6)
+    : (c * (ref - (refPrev ?? ref)) - (ym - (yPrev ?? ym))) / Math.max(controlDt, 1e-6);
+  yPrev = ym;
+  // P acts on b*r - y, so b < 1 softens the kick from a setpoint change without changing
+  // how hard the loop fights a disturbance
+  const eP = (p.setpointWeightP ?? 1) * ref - ym;
   // Optional derivative clamp to avoid extreme spikes from large setpoint steps
   const DE_CLAMP = 1e3;
   const deClamped = Math.max(-DE_CLAMP, Math.min(DE_CLAMP, de));
-  const uCmdNoI = kp * e + kd * deClamped;
-  const uCmdTentative = uCmdNoI + ki * ei;
-  const uCmdSat = Math.max(-1, Math.min(1, uCmdTentative));
-  const saturatingHigh = uCmdTentative > 1 && e > 0;
-  const saturatingLow  = uCmdTentative < -1 && e < 0;
-  if (!(saturatingHigh || saturatingLow)) {
-    ei += e * p.dt;
-    // Simple integrator clamp to prevent numeric blow-up
-    const EI_MAX = 1e3;
-    if (ei > EI_MAX) ei = EI_MAX;
-    if (ei < -EI_MAX) ei = -EI_MAX;
-  }
-  // Recompute command after possible ei update and clamp command for actuator
-  uCmd = Math.max(-1, Math.min(1, kp * e + ki * ei + kd * deClamped));
-  // First-order actuator lag: du/dt = (uCmd - u)/tauLag
-  const du = ((uCmd - u) / Math.max(tauLag, 1e-6)) * p.dt;
-  u += du;
-  // Output clamp to simulate actuator limits (physical saturation)
-  u = Math.max(-1, Math.min(1, u));
+  // First-order low-pass on the derivative (discretized so any time constant stays stable)
+  const tau = Math.max(p.dFilterTau ?? 0, 0);
+  deFilt += (deClamped - deFilt) * (controlDt / (tau + controlDt));
+  // Everything but the integral, the integrator's input and its gain, per form:
+  //   parallel: u = Kp·(b·r - y) + Ki·∫e dt + Kd·D
+  //   ideal:    u = Kc·((b·r - y) + (1/Ti)·∫e dt + Td·D)
+  //   series:   u = Kc·(1 + 1/(Ti·s))·w with the lead w = e + Td·D, so the integral acts on w
+  //             and the derivative filter covers the whole (1 + Td·s) factor
+  // where D is the filtered d(c·r - y)/dt
+  let uP: number;
+  let eI = e;
+  let kI: number;
+  if (law.form === 'parallel') {
+    uP = law.gains.kp * eP;
+    uD = law.gains.kd * deFilt;
+    kI = law.gains.ki;
+  } else {
+    const { kc, ti, td } = law.gains;
+    uP = kc * eP;
+    uD = kc * td * deFilt;
+    kI = ti > 0 ? kc / ti : 0;
+    if (law.form === 'series') eI = e + td * deFilt;
+  }
+  uFF = feedforward();
+  const uCmdNoI = uP + uD;
+  const uCmdTentative = uFF + uCmdNoI + kI * ei;
+  // Anti-windup works against the actuator's limits, which may be tighter than full scale
+  const [uLo, uHi] = outputLimits();
+  const uCmdSat = saturate(uCmdTentative);
+  const saturatingHigh = uCmdTentative > uHi && eI > 0;
+  const saturatingLow  = uCmdTentative < uLo && eI < 0;
+  switch (p.antiWindup ?? 'conditional') {
+    case 'none':
+      ei += eI * controlDt;
+      break;
+    case 'conditional':
+      // Freeze the integrator while saturated and the error would push further into the limit
+      if (!(saturatingHigh || saturatingLow)) ei += eI * controlDt;
+      break;
+    case 'backcalc':
+      // Bleed the integrator by how far the command exceeds the limit: dI/dt = Ki*eI + kt*(uSat - u)
+      ei += eI * controlDt;
+      if (kI > 0) ei += ((p.kt ?? 1) / kI) * (uCmdSat - uCmdTentative) * controlDt;
+      break;
+    case 'clamp': {
+      ei += eI * controlDt;
+      const iLimit = Math.max(p.iLimit ?? 0.5, 0);
+      if (kI > 0) ei = Math.max(-iLimit / kI, Math.min(iLimit / kI, ei));
+      break;
+    }
+    case 'izone':
+      // Only accumulate close to the target; far away P does the work and the integral is dropped
+      if (Math.abs(e) < (p.iZone ?? 0.5)) ei += eI * controlDt;
+      else ei = 0;
+      break;
+    case 'reset':
+      // Throw away the accumulated integral as soon as the error crosses zero
+      if (sign(e) !== 0 && sign(ePrev) !== 0 && sign(e) !== sign(ePrev)) ei = 0;
+      ei += eI * controlDt;
+      break;
+  }
+  // Simple integrator clamp to prevent numeric blow-up
+  const EI_MAX = 1e3;
+  if (ei > EI_MAX) ei = EI_MAX;
+  if (ei < -EI_MAX) ei = -EI_MAX;
+  // Recompute command after possible ei update and clamp command to the actuator's limits
+  uFB = uP + kI * ei + uD;
+  if (p.controller === 'relay') {
+    const eps = p.relayHysteresis ?? 0;
+    if (e > eps) relayHigh = true;
+    else if (e < -eps) relayHigh = false;
+    uFB = (relayHigh ? 1 : -1) * (p.relayAmplitude ?? 0.5);
+  } else if (p.controller === 'open-loop') {
+    uFB = p.openLoopU ?? 0;
+  } else if (p.controller === 'cascade' && (p.plant ?? 'sled') !== 'flywheel') {
+    uFB = cascade(e);
+  } else if (p.controller === 'tbh' && p.plant === 'flywheel') {
+    uFB = takeBackHalf(e);
+  } else if (p.controller === 'bang-bang' && p.plant === 'flywheel') {
+    uFB = bangBang(e);
+  }
+  controlTick++;
+  const uNew = saturate(uFF + uFB);
+  if (p.computeDelay) {
+    uCmd = uCmdNext;
+    uCmdNext = uNew;
+  } else {
+    uCmd = uNew;
+  }
+  ePrev = e;
+}
 
-  // Apply deadband so tiny control outputs produce no movement
-  const uEff = Math.abs(u) < U_DEADBAND ? 0 : u;
+function controlPeriod(): number {
+  return Math.max(p.controlPeriod ?? p.dt, 1e-4);
+}
+
+// Integrate the actuator lag and plant for h seconds with the command held constant
+function advancePlant(h: number, force: number) {
+  if (h <= 0) return;
+  // Keep roughly the configured number of substeps per dt, even for a partial interval
+  const perDt = Math.max(1, Math.round(p.substeps ?? 10));
+  const n = Math.max(1, Math.ceil((perDt * h) / p.dt - 1e-9));
+  let state: PlantState = { y, v, omega, u };
+  for (let i = 0; i < n; i++) state = integrate(state, uCmd, force, h / n);
+  ({ y, v, omega, u } = state);
+  if ((p.plant ?? 'sled') === 'flywheel') y = omega; // output is speed
+}
 
+function step() {
+  // Disturbance force is held constant across the physics step
+  const dist = disturbanceAt(t, p.dt);
+  const tEnd = t + p.dt;
+  let tNow = t;
+  // Run the controller at each of its own sample instants inside this step. Between them
+  // the plant sees the last command (zero-order hold).
+  while (nextControlT < tEnd - 1e-9) {
+    advancePlant(nextControlT - tNow, dist.force);
+    tNow = Math.max(tNow, nextControlT);
+    controlDt = lastControlT === null ? controlPeriod() : Math.max(tNow - lastControlT, 1e-6);
+    lastControlT = tNow;
+    control();
+    const jitter = (p.controlJitter ?? 0) * (2 * jitterRand() - 1);
+    nextControlT += Math.max(controlPeriod() + jitter, 1e-4);
+  }
+  advancePlant(tEnd - tNow, dist.force);
+  // Impulses change momentum instantly at the end of the step
   if ((p.plant ?? 'sled') === 'flywheel') {
-    // Flywheel plant: J * domega/dt + b * omega + tauLoad = K * u
-    const J = Math.max(p.inertiaJ ?? 0.05, 1e-6);
-    const b = p.drag ?? 0.2;
-    const tauLoad = p.loadTorque ?? 0;
-    const domega = ((K * uEff - b * omega - tauLoad) / J) * p.dt;
-    omega += domega;
-    y = omega; // output is speed
+    omega += dist.impulse / plantInertia();
+    y = omega;
   } else {
-    // Inertial sled (no spring): m * dv/dt + b * v = K * u
-    const effectiveMass = Math.max(mass, 1e-6);
-    const dv = ((K * uEff - p.friction * v) / effectiveMass) * p.dt;
-    v += dv;
-    const dy = v * p.dt;
-    y += dy;
-  }
-  t += p.dt;
-  ePrev = e;
+    v += dist.impulse / plantInertia();
+  }
+
+  // Apply deadband so tiny control outputs produce no movement
+  const uEff = deadband(u);
+  if (p.motorModel) {
+    const motor = motorOutput(uEff, (p.plant ?? 'sled') === 'flywheel' ? omega : v);
+    iMotor = motor.current;
+    vBus = motor.busVoltage;
+  }
+  t = tEnd;
 
   tBuf.push(t);
   yBuf.push(y);
   uBuf.push(uEff);
   spBuf.push(p.setpoint);
-  if (tBuf.length > maxPoints) {
+  refBuf.push(ref);
+  ffBuf.push(uFF);
+  fbBuf.push(uFB);
+  dBuf.push(uD);
+  ymBuf.push(ym);
+  iBuf.push(p.motorModel ? iMotor : 0);
+  vBuf.push(p.motorModel ? vBus : 0);
+  vRefBuf.push(p.controller === 'cascade' ? vRefInner : 0);
+  velBuf.push(v);
+  cmdBuf.push(uCmd);
+  kpBuf.push(activeGains.kp);
+  kiBuf.push(activeGains.ki);
+  kdBuf.push(activeGains.kd);
+  if (!headless && tBuf.length > maxPoints) {
     tBuf.shift();
     yBuf.shift();
     uBuf.shift();
     spBuf.shift();
+    refBuf.shift();
+    ffBuf.shift();
+    fbBuf.shift();
+    dBuf.shift();
+    ymBuf.shift();
+    iBuf.shift();
+    vBuf.shift();
+    vRefBuf.shift();
+    velBuf.shift();
+    cmdBuf.shift();
+    kpBuf.shift();
+    kiBuf.shift();
+    kdBuf.shift();
   }
+  // Forget markers that have scrolled out of the buffer
+  while (firedEvents.length && firedEvents[0].t < tBuf[0]) firedEvents.shift();
 }
 
-function flush() {
-  const msg: DataMessage = {
-    type: 'data',
+function snapshotBuffers(): Omit<DataMessage, 'type'> {
+  return {
     t: tBuf.slice(),
     y: yBuf.slice(),
     u: uBuf.slice(),
-    sp: spBuf.slice()
+    sp: spBuf.slice(),
+    ref: refBuf.slice(),
+    ff: ffBuf.slice(),
+    fb: fbBuf.slice(),
+    dTerm: dBuf.slice(),
+    ym: ymBuf.slice(),
+    events: firedEvents.slice(),
+    current: iBuf.slice(),
+    voltage: vBuf.slice(),
+    vRef: vRefBuf.slice(),
+    vel: velBuf.slice(),
+    cmd: cmdBuf.slice(),
+    kpActive: kpBuf.slice(),
+    kiActive: kiBuf.slice(),
+    kdActive: kdBuf.slice()
   };
+}
+
+function flush() {
+  const msg: DataMessage = { type: 'data', ...snapshotBuffers() };
   postMessage(msg);
 }
 
@@ -162,11 +885,25 @@ let flushTimer: number | null = null;
 function startLoop() {
   stopLoop();
   const intervalMs = Math.max(1, Math.floor(p.dt * 1000));
-  // Run sim at intervalMs; can run multiple steps per tick if dt smaller
+  // Advance simulated time by the wall-clock time that actually elapsed, so timer
+  // jitter or a busy main thread doesn't slow the sim down
+  let lastWall = performance.now();
+  let pending = 0; // simulated seconds owed
   simTimer = setInterval(() => {
-    if (!running) return;
-    const stepsPerTick = Math.max(1, Math.round((p.dt * 1000) / intervalMs));
-    for (let i = 0; i < stepsPerTick; i++) step();
+    const now = performance.now();
+    const elapsed = (now - lastWall) / 1000;
+    lastWall = now;
+    if (!running) {
+      pending = 0;
+      return;
+    }
+    // Don't try to catch up after the tab was suspended
+    const MAX_CATCH_UP = 0.25;
+    pending = Math.min(pending + elapsed, MAX_CATCH_UP);
+    while (pending >= p.dt) {
+      step();
+      pending -= p.dt;
+    }
   }, intervalMs) as unknown as number;
 
   flushTimer = setInterval(() => {
@@ -185,25 +922,158 @@ function stopLoop() {
   }
 }
 
+function applySeed(seed: number) {
+  const draw = plantFromSeed(seed);
+  mass = draw.mass;
+  K = draw.K;
+  // Gravity plants: K is chosen so holding up the load takes a set fraction of full command
+  armMass = draw.armMass;
+  armLength = draw.armLength;
+  armK = (armMass * GRAVITY * armLength) / draw.armHold;
+  elevatorMass = draw.elevatorMass;
+  elevatorK = (elevatorMass * GRAVITY) / draw.elevatorHold;
+}
+
 function resetState() {
-  y = 0;
+  // The arm starts resting on its lower hard stop
+  y = p.plant === 'arm' ? ARM_MIN : 0;
   v = 0;
   u = 0;
   t = 0;
   omega = 0;
   ei = 0;
   ePrev = 0;
+  ym = 0;
+  sensorQueue.length = 0;
+  noiseRand = mulberry32((p.seed ?? 0) ^ 0x5eed);
+  yPrev = null;
+  deFilt = 0;
+  iMotor = 0;
+  vBus = p.supplyVoltage ?? 12;
+  ref = y;
+  trapPos = y;
+  trapVel = 0;
+  smoothBuf.length = 0;
+  refPrev = null;
+  refRatePrev = 0;
+  uFF = 0;
+  uFB = 0;
+  uD = 0;
+  relayHigh = true;
+  outerEi = 0;
+  outerEPrev = 0;
+  vRefInner = 0;
+  innerEi = 0;
+  innerEPrev = 0;
+  controlTick = 0;
+  tbhOut = 0;
+  tbhTakeBack = 0;
+  tbhFirstCross = true;
+  tbhTarget = 0;
+  bangFull = false;
+  activeGains = scheduledLaw(0).parallel;
+  nextControlT = 0;
+  lastControlT = null;
+  controlDt = controlPeriod();
+  uCmdNext = 0;
+  jitterRand = mulberry32((p.seed ?? 0) ^ 0x71773);
   tBuf.length = 0;
   yBuf.length = 0;
   uBuf.length = 0;
   spBuf.length = 0;
+  refBuf.length = 0;
+  ffBuf.length = 0;
+  fbBuf.length = 0;
+  dBuf.length = 0;
+  ymBuf.length = 0;
+  iBuf.length = 0;
+  vBuf.length = 0;
+  vRefBuf.length = 0;
+  velBuf.length = 0;
+  cmdBuf.length = 0;
+  kpBuf.length = 0;
+  kiBuf.length = 0;
+  kdBuf.length = 0;
+  manualDisturbances.length = 0;
+  firedEvents.length = 0;
+}
+
+// Arrays step() mutates in place; saved and restored by value around a headless run
+const stateArrays: unknown[][] = [
+  sensorQueue, smoothBuf, manualDisturbances, firedEvents,
+  tBuf, yBuf, uBuf, spBuf, refBuf, ffBuf, fbBuf, dBuf, ymBuf, iBuf, vBuf, vRefBuf, velBuf, cmdBuf,
+  kpBuf, kiBuf, kdBuf
+];
+
+// Everything the live loop would lose if a headless run reused the module state
+function saveState() {
+  return {
+    p, y, v, u, uCmd, t, omega, ei, ePrev, ym, yPrev, deFilt,
+    ref, trapPos, trapVel, refPrev, refRatePrev, uFF, uFB, uD, relayHigh,
+    outerEi, outerEPrev, vRefInner, innerEi, innerEPrev, controlTick,
+    tbhOut, tbhTakeBack, tbhFirstCross, tbhTarget, bangFull, activeGains,
+    nextControlT, lastControlT, controlDt, uCmdNext, jitterRand, iMotor, vBus, noiseRand,
+    mass, K, armMass, armLength, armK, elevatorMass, elevatorK,
+    arrays: stateArrays.map(a => a.slice())
+  };
+}
+
+function restoreState(saved: ReturnType<typeof saveState>) {
+  ({
+    p, y, v, u, uCmd, t, omega, ei, ePrev, ym, yPrev, deFilt,
+    ref, trapPos, trapVel, refPrev, refRatePrev, uFF, uFB, uD, relayHigh,
+    outerEi, outerEPrev, vRefInner, innerEi, innerEPrev, controlTick,
+    tbhOut, tbhTakeBack, tbhFirstCross, tbhTarget, bangFull, activeGains,
+    nextControlT, lastControlT, controlDt, uCmdNext, jitterRand, iMotor, vBus, noiseRand,
+    mass, K, armMass, armLength, armK, elevatorMass, elevatorK
+  } = saved);
+  stateArrays.forEach((a, i) => {
+    a.length = 0;
+    a.push(...saved.arrays[i]);
+  });
+}
+
+// Run an experiment synchronously from a fresh reset. The worker is single-threaded, so the
+// live loop can't tick while this runs, and it resumes from exactly where it was.
+function runHeadless(msg: RunMessage): RunResultMessage {
+  const saved = saveState();
+  headless = true;
+  try {
+    p = { ...msg.params };
+    if (p.seed !== undefined) applySeed(p.seed);
+    resetState();
+    if (msg.initial) {
+      y = msg.initial.y ?? y;
+      v = msg.initial.v ?? v;
+      omega = msg.initial.omega ?? omega;
+      u = msg.initial.u ?? u;
+      if ((p.plant ?? 'sled') === 'flywheel') y = omega;
+      ref = y;
+      trapPos = y;
+    }
+    const schedule = msg.schedule ?? [];
+    // Guard against a huge duration / tiny dt locking up the worker
+    const MAX_STEPS = 500000;
+    const steps = Math.min(MAX_STEPS, Math.max(0, Math.round(msg.duration / p.dt)));
+    let next = 0;
+    for (let i = 0; i < steps; i++) {
+      while (next < schedule.length && schedule[next].t <= t + 1e-9) p.setpoint = schedule[next++].setpoint;
+      step();
+    }
+    return { type: 'runResult', id: msg.id, ...snapshotBuffers() };
+  } finally {
+    headless = false;
+    restoreState(saved);
+  }
 }
 
 self.addEventListener('message', (ev: MessageEvent) => {
-  const msg = ev.data as StartMessage | UpdateMessage | RandomizeMessage | ResetMessage;
+  const msg = ev.data as StartMessage | UpdateMessage | RandomizeMessage | ResetMessage | DisturbMessage | RunMessage;
   if (msg.type === 'start') {
     p = msg.params;
     running = msg.running;
+    // A restarted worker rebuilds the same hidden plant from the seed
+    if (p.seed !== undefined) applySeed(p.seed);
     resetState();
     startLoop();
   } else if (msg.type === 'update') {
@@ -212,11 +1082,15 @@ self.addEventListener('message', (ev: MessageEvent) => {
     // Adjust loop timing
     startLoop();
   } else if (msg.type === 'randomize') {
-    // Randomize hidden plant parameters
-    mass = 0.5 + Math.random() * 4.5; // 0.5 .. 5.0
-    K = 0.5 + Math.random() * 2.5;    // 0.5 .. 3.0
+    // Redraw the hidden plant parameters from the new seed
+    applySeed(msg.seed);
   } else if (msg.type === 'reset') {
     resetState();
+  } else if (msg.type === 'disturb') {
+    // Starts on the next step
+    manualDisturbances.push({ ...msg.disturbance, at: t });
+  } else if (msg.type === 'run') {
+    postMessage(runHeadless(msg));
   }
 });
 